@@ -0,0 +1,226 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	mock,
+	spyOn,
+	test,
+} from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import chalk from "chalk";
+import { applyChanges, formatDiff, undoLastBatch } from "./changes";
+
+chalk.level = 0;
+
+describe("formatDiff", () => {
+	test("numbers hunks with three lines of context", () => {
+		const before = ["a", "b", "c", "d", "e", "f", "g", "h"].join("\n");
+		const after = ["a", "b", "c", "d", "E", "f", "g", "h"].join("\n");
+		expect(formatDiff({ path: "note.md", before, after })).toBe(
+			[
+				"--- a/note.md",
+				"+++ b/note.md",
+				"@@ -2,7 +2,7 @@",
+				" b",
+				" c",
+				" d",
+				"-e",
+				"+E",
+				" f",
+				" g",
+				" h",
+			].join("\n"),
+		);
+	});
+
+	test("splits changes far apart into separate hunks", () => {
+		const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+		const after = [...lines];
+		after[1] = "changed 2";
+		after[18] = "changed 19";
+		const diff = formatDiff({
+			path: "note.md",
+			before: lines.join("\n"),
+			after: after.join("\n"),
+		});
+		expect(diff.split("\n").filter((line) => line.startsWith("@@"))).toEqual([
+			"@@ -1,5 +1,5 @@",
+			"@@ -16,5 +16,5 @@",
+		]);
+	});
+
+	test("shows created, deleted and renamed files", () => {
+		expect(formatDiff({ path: "new.md", before: undefined, after: "a" })).toBe(
+			["--- /dev/null", "+++ b/new.md", "@@ -0,0 +1,1 @@", "+a"].join("\n"),
+		);
+		expect(formatDiff({ path: "old.md", before: "a", after: undefined })).toBe(
+			["--- a/old.md", "+++ /dev/null", "@@ -1,1 +0,0 @@", "-a"].join("\n"),
+		);
+		expect(
+			formatDiff({ path: "b.md", from: "a.md", before: "x", after: "x" }),
+		).toBe(["rename from a.md", "rename to b.md"].join("\n"));
+		expect(
+			formatDiff({ path: "b.md", from: "a.md", before: "x", after: "y" }),
+		).toBe(
+			["rename from a.md", "rename to b.md", "@@ -1,1 +1,1 @@", "-x", "+y"].join(
+				"\n",
+			),
+		);
+	});
+});
+
+describe("applyChanges and undoLastBatch", () => {
+	let root: string;
+
+	const read = (file: string) => fs.readFile(path.join(root, file), "utf-8");
+	const exists = (file: string) =>
+		fs
+			.access(path.join(root, file))
+			.then(() => true)
+			.catch(() => false);
+
+	beforeEach(async () => {
+		root = await fs.mkdtemp(path.join(os.tmpdir(), "multimatter-changes-"));
+		await fs.writeFile(path.join(root, "a.md"), "a before");
+		await fs.writeFile(path.join(root, "b.md"), "b before");
+		await fs.writeFile(path.join(root, "c.md"), "c unchanged");
+		// Keep the backup and dry-run notes out of the test output
+		spyOn(console, "error").mockImplementation(() => {});
+	});
+
+	afterEach(async () => {
+		mock.restore();
+		await fs.rm(root, { recursive: true, force: true });
+	});
+
+	test("writes changes and undoes them", async () => {
+		const result = await applyChanges(
+			root,
+			[
+				{ path: "a.md", before: "a before", after: "a after" },
+				{ path: "b.md", before: "b before", after: undefined },
+				{ path: "c.md", before: "c unchanged", after: "c unchanged" },
+				{ path: "d.md", before: undefined, after: "d new" },
+			],
+			{ yes: true, label: "test" },
+		);
+		expect(result.written.map((change) => change.path)).toEqual([
+			"a.md",
+			"b.md",
+			"d.md",
+		]);
+		expect(result.skipped).toEqual(["c.md"]);
+		expect(await read("a.md")).toBe("a after");
+		expect(await exists("b.md")).toBe(false);
+		expect(await read("d.md")).toBe("d new");
+
+		const manifest = await undoLastBatch(root);
+		expect(manifest?.label).toBe("test");
+		expect(await read("a.md")).toBe("a before");
+		expect(await read("b.md")).toBe("b before");
+		expect(await exists("d.md")).toBe(false);
+		expect(await read("c.md")).toBe("c unchanged");
+		expect(await undoLastBatch(root)).toBeUndefined();
+	});
+
+	test("undoes moves", async () => {
+		await applyChanges(
+			root,
+			[
+				{
+					path: path.join("sub", "moved.md"),
+					from: "a.md",
+					before: "a before",
+					after: "a rewritten",
+				},
+				{ path: "b2.md", from: "b.md", before: undefined, after: undefined },
+			],
+			{ yes: true, label: "mv" },
+		);
+		expect(await exists("a.md")).toBe(false);
+		expect(await read(path.join("sub", "moved.md"))).toBe("a rewritten");
+		expect(await read("b2.md")).toBe("b before");
+
+		await undoLastBatch(root);
+		expect(await read("a.md")).toBe("a before");
+		expect(await read("b.md")).toBe("b before");
+		expect(await exists(path.join("sub", "moved.md"))).toBe(false);
+		expect(await exists("sub")).toBe(false);
+		expect(await exists("b2.md")).toBe(false);
+	});
+
+	test("removes only the folders a batch created", async () => {
+		await fs.mkdir(path.join(root, "Deep"));
+		await applyChanges(
+			root,
+			[
+				{
+					path: path.join("Deep", "Er", "Est", "a.md"),
+					from: "a.md",
+					before: undefined,
+					after: undefined,
+				},
+				{
+					path: path.join("New", "b.md"),
+					from: "b.md",
+					before: undefined,
+					after: undefined,
+				},
+			],
+			{ yes: true, label: "mv" },
+		);
+		await fs.writeFile(path.join(root, "New", "later.md"), "kept");
+
+		await undoLastBatch(root);
+		expect(await read("a.md")).toBe("a before");
+		expect(await exists("Deep")).toBe(true);
+		expect(await exists(path.join("Deep", "Er"))).toBe(false);
+		expect(await read(path.join("New", "later.md"))).toBe("kept");
+	});
+
+	test("walks back one batch at a time", async () => {
+		await applyChanges(
+			root,
+			[{ path: "a.md", before: "a before", after: "a one" }],
+			{ yes: true, label: "one" },
+		);
+		// Backup folders are named by timestamp
+		await Bun.sleep(5);
+		await applyChanges(
+			root,
+			[{ path: "a.md", before: "a one", after: "a two" }],
+			{ yes: true, label: "two" },
+		);
+		expect((await undoLastBatch(root))?.label).toBe("two");
+		expect(await read("a.md")).toBe("a one");
+		expect((await undoLastBatch(root))?.label).toBe("one");
+		expect(await read("a.md")).toBe("a before");
+	});
+
+	test("writes nothing on a dry run", async () => {
+		spyOn(console, "log").mockImplementation(() => {});
+		const result = await applyChanges(
+			root,
+			[{ path: "a.md", before: "a before", after: "a after" }],
+			{ dryRun: true, label: "dry" },
+		);
+		expect(result.written).toEqual([]);
+		expect(await read("a.md")).toBe("a before");
+		expect(await undoLastBatch(root)).toBeUndefined();
+	});
+
+	test("prints dry-run diffs to stderr next to records", async () => {
+		const log = spyOn(console, "log").mockImplementation(() => {});
+		const error = spyOn(console, "error").mockImplementation(() => {});
+		await applyChanges(
+			root,
+			[{ path: "a.md", before: "a before", after: "a after" }],
+			{ dryRun: true, diffToStderr: true, label: "dry" },
+		);
+		expect(log).not.toHaveBeenCalled();
+		expect(error.mock.calls[0][0]).toStartWith("--- a/a.md");
+	});
+});
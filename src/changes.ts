@@ -0,0 +1,414 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import chalk from "chalk";
+import inquirer from "inquirer";
+
+/**
+ * A pending write to a note. `before` is undefined for a file that doesn't
+ * exist yet and `after` is undefined for a file that will be deleted.
+ *
+ * With `from` the file is moved from that path to `path`: `before` is the
+ * content at the old path and `after` the content to write, or both are
+ * undefined to move the file as-is (attachments).
+ */
+export type FileChange = {
+	path: string;
+	before: string | undefined;
+	after: string | undefined;
+	from?: string;
+};
+
+export type ApplyOptions = {
+	/** Print a unified diff per file instead of writing. */
+	dryRun?: boolean;
+	/** Print dry-run diffs to stderr, for when stdout carries records. */
+	diffToStderr?: boolean;
+	/** Skip the confirmation prompt. */
+	yes?: boolean;
+	/** Recorded in the backup manifest, e.g. the command that made the changes. */
+	label: string;
+	/** Stop at the first file that fails instead of continuing with the rest. */
+	failFast?: boolean;
+};
+
+export type FileFailure = { path: string; reason: string };
+
+export type ApplyResult = {
+	written: FileChange[];
+	/** Files whose content wouldn't change. */
+	skipped: string[];
+	failed: FileFailure[];
+};
+
+const reasonOf = (error: unknown) =>
+	(error instanceof Error ? error.message : String(error))
+		.split("\n")[0]
+		.replace(/:$/, "");
+
+/**
+ * Build a change per file, recording the files that fail (unreadable, invalid
+ * front matter, ...) instead of giving up on the whole batch. With
+ * `failFast` nothing after the first failure is attempted.
+ */
+export const collectChanges = async (
+	files: string[],
+	build: (file: string) => Promise<FileChange>,
+	failFast = false,
+) => {
+	const changes: FileChange[] = [];
+	const failed: FileFailure[] = [];
+	for (const file of files) {
+		try {
+			changes.push(await build(file));
+		} catch (error) {
+			failed.push({ path: file, reason: reasonOf(error) });
+			if (failFast) {
+				break;
+			}
+		}
+	}
+	return { changes, failed };
+};
+
+/**
+ * Write through a temporary file in the same directory and rename it over
+ * the target, so a crash never leaves a truncated note behind.
+ */
+export const writeFileAtomic = async (file: string, content: string) => {
+	const temp = path.join(
+		path.dirname(file),
+		`.${path.basename(file)}.${process.pid}.tmp`,
+	);
+	try {
+		await fs.writeFile(temp, content);
+		await fs.rename(temp, file);
+	} catch (error) {
+		await fs.rm(temp, { force: true });
+		throw error;
+	}
+};
+
+type BackupManifest = {
+	createdAt: string;
+	label: string;
+	files: { path: string; existed: boolean }[];
+	/** Folders the batch created, removed on undo once they're empty. */
+	createdDirs?: string[];
+};
+
+const CONTEXT_LINES = 3;
+
+export const backupsPath = (root: string) =>
+	path.join(root, ".multimatter", "backups");
+
+type DiffOp = { type: " " | "-" | "+"; line: string };
+
+const diffLines = (a: string[], b: string[]): DiffOp[] => {
+	// Trim the common head and tail so the LCS table only covers the edit
+	let start = 0;
+	while (start < a.length && start < b.length && a[start] === b[start]) {
+		start++;
+	}
+	let endA = a.length;
+	let endB = b.length;
+	while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+		endA--;
+		endB--;
+	}
+	const midA = a.slice(start, endA);
+	const midB = b.slice(start, endB);
+
+	const lcs = Array.from(
+		{ length: midA.length + 1 },
+		() => new Uint32Array(midB.length + 1),
+	);
+	for (let i = midA.length - 1; i >= 0; i--) {
+		for (let j = midB.length - 1; j >= 0; j--) {
+			lcs[i][j] =
+				midA[i] === midB[j]
+					? lcs[i + 1][j + 1] + 1
+					: Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+		}
+	}
+
+	const ops: DiffOp[] = a
+		.slice(0, start)
+		.map((line) => ({ type: " ", line }) as DiffOp);
+	let i = 0;
+	let j = 0;
+	while (i < midA.length || j < midB.length) {
+		if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+			ops.push({ type: " ", line: midA[i++] });
+			j++;
+		} else if (
+			i < midA.length &&
+			(j === midB.length || lcs[i + 1][j] >= lcs[i][j + 1])
+		) {
+			ops.push({ type: "-", line: midA[i++] });
+		} else {
+			ops.push({ type: "+", line: midB[j++] });
+		}
+	}
+	for (const line of a.slice(endA)) {
+		ops.push({ type: " ", line });
+	}
+	return ops;
+};
+
+/** Render a change as a colored unified diff with three lines of context. */
+export const formatDiff = (change: FileChange): string => {
+	const a = change.before === undefined ? [] : change.before.split("\n");
+	const b = change.after === undefined ? [] : change.after.split("\n");
+	const ops = diffLines(a, b);
+
+	// Line offsets before each op, to number the hunks
+	const offsets: { old: number; new: number }[] = [];
+	let oldLine = 0;
+	let newLine = 0;
+	for (const op of ops) {
+		offsets.push({ old: oldLine, new: newLine });
+		if (op.type !== "+") oldLine++;
+		if (op.type !== "-") newLine++;
+	}
+
+	if (change.from !== undefined) {
+		const rename = [
+			chalk.bold(`rename from ${change.from}`),
+			chalk.bold(`rename to ${change.path}`),
+		];
+		if (change.before === change.after) {
+			return rename.join("\n");
+		}
+		return [
+			...rename,
+			...formatDiff({
+				path: change.path,
+				before: change.before ?? "",
+				after: change.after ?? "",
+			})
+				.split("\n")
+				.slice(2),
+		].join("\n");
+	}
+
+	const lines = [
+		chalk.bold(
+			change.before === undefined ? "--- /dev/null" : `--- a/${change.path}`,
+		),
+		chalk.bold(
+			change.after === undefined ? "+++ /dev/null" : `+++ b/${change.path}`,
+		),
+	];
+	let i = 0;
+	while (i < ops.length) {
+		if (ops[i].type === " ") {
+			i++;
+			continue;
+		}
+		// Grow the hunk until the gap between changes exceeds twice the context
+		const first = Math.max(0, i - CONTEXT_LINES);
+		let last = i;
+		for (let k = i; k < ops.length && k <= last + CONTEXT_LINES * 2; k++) {
+			if (ops[k].type !== " ") last = k;
+		}
+		const end = Math.min(ops.length, last + CONTEXT_LINES + 1);
+		const hunk = ops.slice(first, end);
+		const oldCount = hunk.filter((op) => op.type !== "+").length;
+		const newCount = hunk.filter((op) => op.type !== "-").length;
+		const oldStart = offsets[first].old + (oldCount > 0 ? 1 : 0);
+		const newStart = offsets[first].new + (newCount > 0 ? 1 : 0);
+		lines.push(
+			chalk.cyan(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`),
+		);
+		for (const op of hunk) {
+			const text = `${op.type}${op.line}`;
+			lines.push(
+				op.type === "+"
+					? chalk.green(text)
+					: op.type === "-"
+						? chalk.red(text)
+						: text,
+			);
+		}
+		i = end;
+	}
+	return lines.join("\n");
+};
+
+/** Folders that writing the changes would create, deepest first. */
+const missingDirs = async (root: string, changes: FileChange[]) => {
+	const dirs = new Set<string>();
+	for (const change of changes) {
+		if (change.from === undefined && change.after === undefined) {
+			continue;
+		}
+		let dir = path.dirname(change.path);
+		while (dir !== "." && !dirs.has(dir)) {
+			const exists = await fs
+				.access(path.join(root, dir))
+				.then(() => true)
+				.catch(() => false);
+			if (exists) {
+				break;
+			}
+			dirs.add(dir);
+			dir = path.dirname(dir);
+		}
+	}
+	return [...dirs].sort((a, b) => b.length - a.length);
+};
+
+const backupChanges = async (
+	root: string,
+	changes: FileChange[],
+	label: string,
+) => {
+	const createdAt = new Date().toISOString();
+	const dir = path.join(backupsPath(root), createdAt.replace(/[:.]/g, "-"));
+	for (const change of changes) {
+		if (change.from !== undefined) {
+			// Copied rather than rewritten so binary attachments survive
+			const backupFile = path.join(dir, "files", change.from);
+			await fs.mkdir(path.dirname(backupFile), { recursive: true });
+			await fs.copyFile(path.join(root, change.from), backupFile);
+		} else if (change.before !== undefined) {
+			const backupFile = path.join(dir, "files", change.path);
+			await fs.mkdir(path.dirname(backupFile), { recursive: true });
+			await fs.writeFile(backupFile, change.before);
+		}
+	}
+	const manifest: BackupManifest = {
+		createdAt,
+		label,
+		files: changes.flatMap((change) =>
+			change.from !== undefined
+				? [
+						{ path: change.from, existed: true },
+						{ path: change.path, existed: false },
+					]
+				: [{ path: change.path, existed: change.before !== undefined }],
+		),
+		createdDirs: await missingDirs(root, changes),
+	};
+	await fs.mkdir(dir, { recursive: true });
+	await fs.writeFile(
+		path.join(dir, "manifest.json"),
+		JSON.stringify(manifest, null, 2),
+	);
+	return dir;
+};
+
+/**
+ * Write a batch of changes. Every touched file is snapshotted to
+ * `.multimatter/backups/<timestamp>/` first so `multimatter undo` can
+ * restore it. A file that can't be written is recorded and the rest of the
+ * batch continues, unless `failFast` is set.
+ */
+export const applyChanges = async (
+	root: string,
+	changes: FileChange[],
+	options: ApplyOptions,
+): Promise<ApplyResult> => {
+	const pending = changes.filter(
+		(change) => change.from !== undefined || change.before !== change.after,
+	);
+	const result: ApplyResult = {
+		written: [],
+		skipped: changes
+			.filter((change) => !pending.includes(change))
+			.map((change) => change.path),
+		failed: [],
+	};
+	if (pending.length === 0) {
+		console.error(chalk.gray("No files need to change"));
+		return result;
+	}
+
+	if (options.dryRun) {
+		const print = options.diffToStderr ? console.error : console.log;
+		for (const change of pending) {
+			print(formatDiff(change));
+		}
+		console.error(
+			chalk.yellow(`Dry run: ${pending.length} files would change`),
+		);
+		return result;
+	}
+
+	if (!options.yes && process.stdin.isTTY) {
+		const { confirmed } = await inquirer.prompt([
+			{
+				type: "confirm",
+				name: "confirmed",
+				message: `${options.label}: write ${pending.length} files?`,
+				default: false,
+			},
+		]);
+		if (!confirmed) {
+			console.error(chalk.yellow("Aborted, no files were written"));
+			return result;
+		}
+	}
+
+	const backupDir = await backupChanges(root, pending, options.label);
+	for (const change of pending) {
+		const fullPath = path.join(root, change.path);
+		try {
+			if (change.from !== undefined) {
+				await fs.mkdir(path.dirname(fullPath), { recursive: true });
+				if (change.after === undefined) {
+					await fs.rename(path.join(root, change.from), fullPath);
+				} else {
+					await writeFileAtomic(fullPath, change.after);
+					await fs.rm(path.join(root, change.from), { force: true });
+				}
+			} else if (change.after === undefined) {
+				await fs.rm(fullPath, { force: true });
+			} else {
+				await fs.mkdir(path.dirname(fullPath), { recursive: true });
+				await writeFileAtomic(fullPath, change.after);
+			}
+			result.written.push(change);
+		} catch (error) {
+			result.failed.push({ path: change.path, reason: reasonOf(error) });
+			if (options.failFast) {
+				break;
+			}
+		}
+	}
+	console.error(
+		chalk.gray(`Backup saved to ${path.relative(root, backupDir)}`),
+	);
+	return result;
+};
+
+/**
+ * Restore the files of the most recent backup, remove the folders it created
+ * and then the backup itself, so repeated calls walk further back. Returns the manifest, or undefined without backups.
+ */
+export const undoLastBatch = async (root: string) => {
+	const entries = await fs.readdir(backupsPath(root)).catch(() => []);
+	const latest = entries.sort().at(-1);
+	if (!latest) {
+		return undefined;
+	}
+	const dir = path.join(backupsPath(root), latest);
+	const manifest: BackupManifest = JSON.parse(
+		await fs.readFile(path.join(dir, "manifest.json"), "utf-8"),
+	);
+	for (const file of manifest.files) {
+		const fullPath = path.join(root, file.path);
+		if (file.existed) {
+			await fs.mkdir(path.dirname(fullPath), { recursive: true });
+			await fs.copyFile(path.join(dir, "files", file.path), fullPath);
+		} else {
+			await fs.rm(fullPath, { force: true });
+		}
+	}
+	for (const created of manifest.createdDirs || []) {
+		// Left in place when something else was put there since
+		await fs.rmdir(path.join(root, created)).catch(() => {});
+	}
+	await fs.rm(dir, { recursive: true, force: true });
+	return manifest;
+};
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	type Config,
+	ConfigError,
+	configPath,
+	loadConfig,
+	resolveVault,
+} from "./config";
+
+let root: string;
+const saved = {
+	VAULT_PATH: process.env.VAULT_PATH,
+	XDG_CONFIG_HOME: process.env.XDG_CONFIG_HOME,
+};
+
+beforeEach(async () => {
+	root = await fs.realpath(
+		await fs.mkdtemp(path.join(os.tmpdir(), "multimatter-config-")),
+	);
+	delete process.env.VAULT_PATH;
+	process.env.XDG_CONFIG_HOME = path.join(root, "config");
+});
+
+afterEach(async () => {
+	for (const [key, value] of Object.entries(saved)) {
+		if (value === undefined) {
+			delete process.env[key];
+		} else {
+			process.env[key] = value;
+		}
+	}
+	await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("loadConfig", () => {
+	const writeConfig = async (source: string) => {
+		await fs.mkdir(path.dirname(configPath()), { recursive: true });
+		await fs.writeFile(configPath(), source);
+	};
+
+	test("is empty without a config file", async () => {
+		expect(await loadConfig()).toEqual({});
+	});
+
+	test("resolves profile paths", async () => {
+		await writeConfig("default: work\nvaults:\n  work:\n    path: ~/Work\n");
+		expect(await loadConfig()).toEqual({
+			default: "work",
+			vaults: { work: { path: path.join(os.homedir(), "Work") } },
+		});
+	});
+
+	test("rejects unknown keys and a default without a profile", async () => {
+		await writeConfig("vaults:\n  work:\n    path: /w\n    colour: red\n");
+		await expect(loadConfig()).rejects.toThrow(ConfigError);
+		await writeConfig("default: home\n");
+		await expect(loadConfig()).rejects.toThrow('no vault named "home"');
+	});
+});
+
+describe("resolveVault", () => {
+	let work: string;
+	let notes: string;
+	let config: Config;
+
+	beforeEach(async () => {
+		work = path.join(root, "work");
+		notes = path.join(root, "notes");
+		await fs.mkdir(path.join(work, ".obsidian", "plugins"), { recursive: true });
+		await fs.mkdir(notes);
+		config = {
+			default: "notes",
+			vaults: {
+				work: { path: work, editor: "code -w" },
+				notes: { path: notes },
+			},
+		};
+	});
+
+	test("takes a profile name or a path from --vault first", async () => {
+		process.env.VAULT_PATH = notes;
+		expect(await resolveVault(config, "work", notes)).toMatchObject({
+			path: work,
+			name: "work",
+			source: "flag",
+		});
+		// A path still gets the settings of its profile
+		expect(await resolveVault(config, work, notes)).toEqual({
+			path: work,
+			name: "work",
+			profile: config.vaults?.work,
+			source: "flag",
+		});
+		expect(await resolveVault({}, notes, work)).toEqual({
+			path: notes,
+			source: "flag",
+		});
+		await expect(resolveVault(config, "missing", notes)).rejects.toThrow(
+			'No vault named or at "missing"',
+		);
+	});
+
+	test("then VAULT_PATH", async () => {
+		process.env.VAULT_PATH = notes;
+		expect(await resolveVault(config, undefined, work)).toMatchObject({
+			path: notes,
+			name: "notes",
+			source: "env",
+		});
+	});
+
+	test("then the Obsidian vault around the working directory", async () => {
+		expect(
+			await resolveVault(config, undefined, path.join(work, ".obsidian", "plugins")),
+		).toMatchObject({ path: work, name: "work", source: "detected" });
+	});
+
+	test("then the default profile, then ./vault", async () => {
+		expect(await resolveVault(config, undefined, root)).toMatchObject({
+			path: notes,
+			name: "notes",
+			source: "default",
+		});
+		expect(await resolveVault({}, undefined, root)).toEqual({
+			path: path.resolve("vault"),
+			source: "fallback",
+		});
+	});
+});
@@ -0,0 +1,168 @@
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import * as yaml from "yaml";
+import { z } from "zod";
+
+/** The config file is invalid or names a vault that doesn't exist. */
+export class ConfigError extends Error {}
+
+const profileSchema = z
+	.object({
+		path: z.string(),
+		/** Extra `--include`/`--exclude` globs for every command. */
+		include: z.array(z.string()).optional(),
+		exclude: z.array(z.string()).optional(),
+		/** Command that opens a note, e.g. `code -w`; defaults to `$EDITOR`. */
+		editor: z.string().optional(),
+		tags: z
+			.object({
+				/** Lowercase tags given on the command line. */
+				lowercase: z.boolean().optional(),
+				/** Folder → tag that `watch` adds to notes saved there. */
+				folders: z.record(z.string(), z.string()).optional(),
+			})
+			.strict()
+			.optional(),
+	})
+	.strict();
+
+const configSchema = z
+	.object({
+		/** Profile used when nothing else picks a vault. */
+		default: z.string().optional(),
+		vaults: z.record(z.string(), profileSchema).optional(),
+	})
+	.strict();
+
+export type VaultProfile = z.infer<typeof profileSchema>;
+
+export type Config = z.infer<typeof configSchema>;
+
+export type ResolvedVault = {
+	path: string;
+	/** Profile name, when the vault is one of the configured ones. */
+	name?: string;
+	profile?: VaultProfile;
+	/** What picked the vault. */
+	source: "flag" | "env" | "detected" | "default" | "fallback";
+};
+
+export const configPath = () =>
+	path.join(
+		process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config"),
+		"multimatter",
+		"config.yaml",
+	);
+
+const expandHome = (file: string) =>
+	file === "~" || file.startsWith("~/")
+		? path.join(os.homedir(), file.slice(1))
+		: file;
+
+/** Read the config file; a missing file is an empty config. */
+export const loadConfig = async (): Promise<Config> => {
+	let source: string;
+	try {
+		source = await fs.readFile(configPath(), "utf-8");
+	} catch {
+		return {};
+	}
+	let parsed: ReturnType<typeof configSchema.safeParse>;
+	try {
+		parsed = configSchema.safeParse(yaml.parse(source) ?? {});
+	} catch (error) {
+		throw new ConfigError(
+			`${configPath()}: ${(error as Error).message.split("\n")[0]}`,
+		);
+	}
+	if (!parsed.success) {
+		const issue = parsed.error.issues[0];
+		throw new ConfigError(
+			`${configPath()}: ${issue.path.join(".")}: ${issue.message}`,
+		);
+	}
+	const config = parsed.data;
+	for (const profile of Object.values(config.vaults || {})) {
+		profile.path = path.resolve(expandHome(profile.path));
+	}
+	if (config.default && !config.vaults?.[config.default]) {
+		throw new ConfigError(
+			`${configPath()}: default: no vault named "${config.default}"`,
+		);
+	}
+	return config;
+};
+
+const isDirectory = (dir: string) =>
+	fs
+		.stat(dir)
+		.then((stats) => stats.isDirectory())
+		.catch(() => false);
+
+/** The closest directory at or above `dir` that contains `.obsidian/`. */
+export const detectVault = async (dir: string) => {
+	let current = path.resolve(dir);
+	while (true) {
+		if (await isDirectory(path.join(current, ".obsidian"))) {
+			return current;
+		}
+		const parent = path.dirname(current);
+		if (parent === current) {
+			return undefined;
+		}
+		current = parent;
+	}
+};
+
+/**
+ * Pick the vault to work on: `--vault` (a profile name or a path), then
+ * `VAULT_PATH`, then the Obsidian vault containing the working directory,
+ * then the config's default profile, then `./vault`. A vault given by path
+ * still gets the settings of the profile with that path.
+ */
+export const resolveVault = async (
+	config: Config,
+	flag: string | undefined,
+	cwd = process.cwd(),
+): Promise<ResolvedVault> => {
+	const profiles = Object.entries(config.vaults || {});
+	const withProfile = (
+		vaultPath: string,
+		source: ResolvedVault["source"],
+	): ResolvedVault => {
+		const resolved = path.resolve(expandHome(vaultPath));
+		const match = profiles.find(([, profile]) => profile.path === resolved);
+		return match
+			? { path: resolved, name: match[0], profile: match[1], source }
+			: { path: resolved, source };
+	};
+
+	if (flag) {
+		const profile = config.vaults?.[flag];
+		if (profile) {
+			return { path: profile.path, name: flag, profile, source: "flag" };
+		}
+		if (!(await isDirectory(expandHome(flag)))) {
+			throw new ConfigError(`No vault named or at "${flag}"`);
+		}
+		return withProfile(flag, "flag");
+	}
+	if (process.env.VAULT_PATH) {
+		return withProfile(process.env.VAULT_PATH, "env");
+	}
+	const detected = await detectVault(cwd);
+	if (detected) {
+		return withProfile(detected, "detected");
+	}
+	if (config.default) {
+		const profile = config.vaults?.[config.default] as VaultProfile;
+		return {
+			path: profile.path,
+			name: config.default,
+			profile,
+			source: "default",
+		};
+	}
+	return withProfile("./vault", "fallback");
+};
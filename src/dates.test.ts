@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import { formatDate, inferDateFormat } from "./dates";
+
+describe("inferDateFormat", () => {
+	test("keeps the precision of the value as written", () => {
+		expect(inferDateFormat("2024-05-01")).toBe("YYYY-MM-DD");
+		expect(inferDateFormat("2024-05-01T10:30")).toBe("YYYY-MM-DDTHH:mm");
+		expect(inferDateFormat("2024-05-01 10:30:15")).toBe("YYYY-MM-DD HH:mm:ss");
+		expect(inferDateFormat("2024-05-01T10:30:15.250Z")).toBe(
+			"YYYY-MM-DDTHH:mm:ss",
+		);
+	});
+
+	test("is undefined for values that aren't ISO dates", () => {
+		expect(inferDateFormat(undefined)).toBeUndefined();
+		expect(inferDateFormat("01/05/2024")).toBeUndefined();
+		expect(inferDateFormat(20240501)).toBeUndefined();
+	});
+
+	test("round-trips through formatDate", () => {
+		const date = new Date(2024, 4, 1, 10, 30, 15);
+		for (const value of ["2024-05-01", "2024-05-01T10:30", "2024-05-01 10:30:15"]) {
+			expect(formatDate(date, inferDateFormat(value) as string)).toBe(value);
+		}
+	});
+});
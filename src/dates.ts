@@ -0,0 +1,223 @@
+import { spawn } from "node:child_process";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { collectChanges, type FileChange, type FileFailure } from "./changes";
+import { editFrontMatter } from "./frontmatter";
+import { ISO_DATE, type LintSchema, rulesFor } from "./schema";
+import type { Note, VaultIndex } from "./vault-index";
+
+export type DateSyncOptions = {
+	/** Front matter key for the creation date, filled only when missing. */
+	dateField: string;
+	/** Front matter key for the last modification, kept up to date. */
+	lastmodField: string;
+	/**
+	 * Formats such as `YYYY-MM-DD`; default to the schema's, then to the one
+	 * of the current value, then `YYYY-MM-DD`.
+	 */
+	dateFormat?: string;
+	lastmodFormat?: string;
+	/** Take dates from the first and last commit instead of the file times. */
+	git?: boolean;
+	/** Only notes modified at or after this time. */
+	since?: Date;
+};
+
+export type DateChange = {
+	path: string;
+	field: string;
+	from: string | undefined;
+	to: string;
+};
+
+export type DateSyncPlan = {
+	changes: FileChange[];
+	updates: DateChange[];
+	failed: FileFailure[];
+};
+
+type FileDates = { created: Date; modified: Date };
+
+const pad = (value: number, width = 2) => String(value).padStart(width, "0");
+
+/** Format a date in local time with `YYYY`, `MM`, `DD`, `HH`, `mm` and `ss`. */
+export const formatDate = (date: Date, format: string) =>
+	format
+		.split(/(YYYY|MM|DD|HH|mm|ss)/)
+		.map((part) => {
+			switch (part) {
+				case "YYYY":
+					return pad(date.getFullYear(), 4);
+				case "MM":
+					return pad(date.getMonth() + 1);
+				case "DD":
+					return pad(date.getDate());
+				case "HH":
+					return pad(date.getHours());
+				case "mm":
+					return pad(date.getMinutes());
+				case "ss":
+					return pad(date.getSeconds());
+				default:
+					return part;
+			}
+		})
+		.join("");
+
+/**
+ * The format of an ISO date or datetime value as written, so a rewrite keeps
+ * its precision: `2024-05-01T10:30` gives `YYYY-MM-DDTHH:mm`. Undefined for
+ * anything else.
+ */
+export const inferDateFormat = (value: unknown) => {
+	const match = typeof value === "string" ? value.match(ISO_DATE) : null;
+	if (!match) {
+		return undefined;
+	}
+	if (!match[1]) {
+		return "YYYY-MM-DD";
+	}
+	return `YYYY-MM-DD${match[1][0]}HH:mm${match[2] ? ":ss" : ""}`;
+};
+
+const DURATION_MS: Record<string, number> = {
+	h: 60 * 60 * 1000,
+	d: 24 * 60 * 60 * 1000,
+	w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/** `--since` as a duration back from now (`12h`, `7d`, `2w`) or a date. */
+export const parseSince = (value: string) => {
+	const duration = value.match(/^(\d+)([hdw])$/);
+	if (duration) {
+		return new Date(Date.now() - Number(duration[1]) * DURATION_MS[duration[2]]);
+	}
+	const date = new Date(value);
+	return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const runGit = (cwd: string, args: string[]) =>
+	new Promise<string>((resolve, reject) => {
+		const child = spawn("git", args, { cwd });
+		let stdout = "";
+		let stderr = "";
+		child.stdout.setEncoding("utf8");
+		child.stdout.on("data", (chunk: string) => {
+			stdout += chunk;
+		});
+		child.stderr.on("data", (chunk) => {
+			stderr += chunk;
+		});
+		child.on("error", reject);
+		child.on("close", (code) => {
+			if (code === 0) {
+				resolve(stdout);
+			} else {
+				reject(new Error(stderr.trim() || `git exited with code ${code}`));
+			}
+		});
+	});
+
+/**
+ * First and last commit date of every committed file below `root`, keyed by
+ * the path relative to `root`. One `git log` for the whole vault, newest
+ * commit first, so the first date seen is the last change.
+ */
+const gitDates = async (root: string) => {
+	const log = await runGit(root, [
+		"-c",
+		"core.quotePath=off",
+		"log",
+		"--format=%x00%aI",
+		"--name-only",
+		"--no-renames",
+		"--relative",
+		"--",
+		".",
+	]);
+	const dates = new Map<string, FileDates>();
+	for (const commit of log.split("\0").slice(1)) {
+		const [date, ...files] = commit.split("\n");
+		const time = new Date(date);
+		for (const file of files.filter(Boolean)) {
+			const relPath = path.normalize(file);
+			const known = dates.get(relPath);
+			dates.set(relPath, { created: time, modified: known?.modified ?? time });
+		}
+	}
+	return dates;
+};
+
+/**
+ * Plan filling `date` where it's missing and updating `lastmod`, from file
+ * birth and modification times or, with `git`, from the first and last
+ * commit of each note. Notes that were never committed fall back to their
+ * file times.
+ */
+export const planDateSync = async (
+	index: VaultIndex,
+	options: DateSyncOptions,
+	schema?: LintSchema,
+	failFast = false,
+): Promise<DateSyncPlan> => {
+	const committed = options.git ? await gitDates(index.root) : undefined;
+	const datesOf = (note: Note): FileDates =>
+		committed?.get(note.path) ?? {
+			created: new Date(note.ctimeMs),
+			modified: new Date(note.mtimeMs),
+		};
+	const updates: DateChange[] = [];
+
+	const { changes, failed } = await collectChanges(
+		index.notes
+			.filter((note) => !options.since || datesOf(note).modified >= options.since)
+			.map((note) => note.path),
+		async (file) => {
+			const dates = datesOf(index.byPath.get(file) as Note);
+			const rules = schema ? rulesFor(schema, file) : {};
+			const content = await fs.readFile(path.join(index.root, file), "utf-8");
+			const after = editFrontMatter(content, (frontMatter) => {
+				const format = (field: string, given?: string) =>
+					given ||
+					rules[field]?.format ||
+					inferDateFormat(frontMatter.get(field)) ||
+					"YYYY-MM-DD";
+				const update = (field: string, value: string) => {
+					const current = frontMatter.get(field);
+					const from =
+						current === undefined || current === null
+							? undefined
+							: String(current);
+					if (from !== value) {
+						frontMatter.set(field, value);
+						updates.push({ path: file, field, from, to: value });
+					}
+				};
+				const date = frontMatter.get(options.dateField);
+				if (date === undefined || date === null || date === "") {
+					update(
+						options.dateField,
+						formatDate(
+							dates.created,
+							format(options.dateField, options.dateFormat),
+						),
+					);
+				}
+				update(
+					options.lastmodField,
+					formatDate(
+						dates.modified,
+						format(options.lastmodField, options.lastmodFormat),
+					),
+				);
+			});
+			return { path: file, before: content, after };
+		},
+		failFast,
+	);
+	return {
+		changes: changes.filter((change) => change.after !== change.before),
+		updates,
+		failed,
+	};
+};
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { diagnoseVault } from "./doctor";
+import { rebuildVaultIndex } from "./vault-index";
+
+let root: string;
+
+const writeNote = async (relPath: string, content: string) => {
+	await fs.mkdir(path.dirname(path.join(root, relPath)), { recursive: true });
+	await fs.writeFile(path.join(root, relPath), content);
+};
+
+const diagnose = async (staleDays?: number) =>
+	(await diagnoseVault(await rebuildVaultIndex(root), { staleDays })).map(
+		({ check, path: notePath, line }) => `${check} ${notePath}:${line}`,
+	);
+
+beforeEach(async () => {
+	root = await fs.mkdtemp(path.join(os.tmpdir(), "multimatter-doctor-"));
+	await writeNote(
+		"A.md",
+		[
+			"[[Missing]]",
+			"![[Gone]] ![[pic.png]] ![[here.png]]",
+			"[[Intro#Nope]] [[Intro#Start]] [[Intro#^block]]",
+		].join("\n"),
+	);
+	await writeNote("Intro.md", "# Start\nText ^block\n");
+	await writeNote("here.png", "");
+});
+
+afterEach(async () => {
+	await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("diagnoseVault", () => {
+	test("finds nothing wrong in a healthy vault", async () => {
+		await fs.rm(path.join(root, "A.md"));
+		expect(await diagnose()).toEqual([]);
+	});
+
+	test("reports links, embeds, attachments and headings that don't resolve", async () => {
+		expect(await diagnose()).toEqual([
+			"broken-link A.md:1",
+			"broken-link A.md:3",
+			"broken-embed A.md:2",
+			"missing-attachment A.md:2",
+		]);
+	});
+
+	test("reports invalid front matter, duplicate titles and empty notes", async () => {
+		await fs.rm(path.join(root, "A.md"));
+		await writeNote("Bad.md", "---\ntags: [open\n---\nText\n");
+		await writeNote(path.join("Old", "Intro.md"), "");
+		await writeNote("Meta.md", "---\nstatus: draft\n---\n\n");
+		expect(await diagnose()).toEqual([
+			"invalid-front-matter Bad.md:1",
+			"duplicate-title Intro.md:1",
+			`duplicate-title ${path.join("Old", "Intro.md")}:1`,
+			"empty-note Meta.md:1",
+			`empty-note ${path.join("Old", "Intro.md")}:1`,
+		]);
+	});
+
+	test("reports stale notes only when asked", async () => {
+		await fs.rm(path.join(root, "A.md"));
+		const old = new Date(Date.now() - 40 * 24 * 60 * 60 * 1000);
+		await fs.utimes(path.join(root, "Intro.md"), old, old);
+		expect(await diagnose()).toEqual([]);
+		expect(await diagnose(60)).toEqual([]);
+		expect(await diagnose(30)).toEqual(["stale-note Intro.md:1"]);
+	});
+});
@@ -0,0 +1,149 @@
+import * as path from "node:path";
+import { buildLinkGraph, type ResolvedLink } from "./links";
+import { readNote, type VaultIndex } from "./vault-index";
+
+export const DOCTOR_CHECKS = [
+	"invalid-front-matter",
+	"broken-link",
+	"broken-embed",
+	"missing-attachment",
+	"duplicate-title",
+	"empty-note",
+	"stale-note",
+] as const;
+
+export type DoctorCheck = (typeof DOCTOR_CHECKS)[number];
+
+export type DoctorIssue = {
+	check: DoctorCheck;
+	path: string;
+	/** 1-based line, or 1 for problems with the whole note. */
+	line: number;
+	detail: string;
+};
+
+export type DoctorOptions = {
+	/** Report notes not modified for this many days; 0 turns the check off. */
+	staleDays?: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isAttachment = (target: string) => {
+	const extension = path.extname(target).toLowerCase();
+	return extension !== "" && extension !== ".md";
+};
+
+const headingKey = (text: string) => text.trim().toLowerCase();
+
+const linkIssue = (link: ResolvedLink, detail?: string): DoctorIssue => ({
+	check: isAttachment(link.target)
+		? "missing-attachment"
+		: link.embed
+			? "broken-embed"
+			: "broken-link",
+	path: link.source,
+	line: link.line,
+	detail: detail ? `${link.original} (${detail})` : link.original,
+});
+
+/**
+ * Check the selected notes for problems: unresolved links and embeds, links
+ * to missing headings, notes sharing a title (which makes `[[Title]]`
+ * ambiguous), empty notes, front matter that isn't valid YAML and notes
+ * that haven't changed in a long time.
+ */
+export const diagnoseVault = async (
+	index: VaultIndex,
+	options: DoctorOptions = {},
+) => {
+	const issues: DoctorIssue[] = [];
+	const graph = buildLinkGraph(index);
+
+	for (const note of index.notes) {
+		if (note.frontMatterError) {
+			issues.push({
+				check: "invalid-front-matter",
+				path: note.path,
+				line: 1,
+				detail: note.frontMatterError,
+			});
+		}
+	}
+
+	for (const link of graph.unresolved) {
+		issues.push(linkIssue(link));
+	}
+	for (const links of graph.outgoing.values()) {
+		for (const link of links) {
+			const target = link.resolved && index.byPath.get(link.resolved);
+			const heading = link.subpath?.startsWith("#^")
+				? undefined
+				: link.subpath?.split("#").at(-1);
+			if (
+				target &&
+				heading &&
+				!target.headings.some(
+					(candidate) => headingKey(candidate.text) === headingKey(heading),
+				)
+			) {
+				issues.push(linkIssue(link, "heading not found"));
+			}
+		}
+	}
+
+	const byTitle = new Map<string, string[]>();
+	for (const note of index.notes) {
+		const key = note.title.toLowerCase();
+		byTitle.set(key, [...(byTitle.get(key) || []), note.path]);
+	}
+	for (const paths of byTitle.values()) {
+		if (paths.length > 1) {
+			for (const notePath of paths) {
+				issues.push({
+					check: "duplicate-title",
+					path: notePath,
+					line: 1,
+					detail: `same title as ${paths.filter((other) => other !== notePath).join(", ")}`,
+				});
+			}
+		}
+	}
+
+	for (const note of index.notes) {
+		const { body, content, attributes } = await readNote(index.root, note.path);
+		if (!body.trim()) {
+			issues.push({
+				check: "empty-note",
+				path: note.path,
+				line: 1,
+				detail:
+					content.trim() && (Object.keys(attributes).length > 0 || body !== content)
+						? "front matter only"
+						: "empty file",
+			});
+		}
+	}
+
+	const staleDays = options.staleDays ?? 0;
+	if (staleDays > 0) {
+		const cutoff = Date.now() - staleDays * DAY_MS;
+		for (const note of index.notes) {
+			if (note.mtimeMs < cutoff) {
+				const days = Math.floor((Date.now() - note.mtimeMs) / DAY_MS);
+				issues.push({
+					check: "stale-note",
+					path: note.path,
+					line: 1,
+					detail: `not modified in ${days} days (${new Date(note.mtimeMs).toISOString().slice(0, 10)})`,
+				});
+			}
+		}
+	}
+
+	const order = (issue: DoctorIssue) => DOCTOR_CHECKS.indexOf(issue.check);
+	return issues.sort(
+		(a, b) =>
+			order(a) - order(b) || a.path.localeCompare(b.path) || a.line - b.line,
+	);
+};
@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import {
+	appendValues,
+	FieldValueError,
+	parseAssignment,
+	parseFieldValue,
+} from "./fields";
+
+describe("parseFieldValue", () => {
+	test("reads untyped values like YAML", () => {
+		expect(parseFieldValue("true")).toBe(true);
+		expect(parseFieldValue("3")).toBe(3);
+		expect(parseFieldValue("-1.5")).toBe(-1.5);
+		expect(parseFieldValue("[a, 2]")).toEqual(["a", 2]);
+		expect(parseFieldValue("2024-05-01")).toBe("2024-05-01");
+		expect(parseFieldValue("a: b")).toBe("a: b");
+		expect(parseFieldValue("")).toBe("");
+	});
+
+	test("keeps numbers YAML would rewrite as typed", () => {
+		expect(parseFieldValue("1.10")).toBe("1.10");
+		expect(parseFieldValue("0755")).toBe("0755");
+		expect(parseFieldValue("1e3")).toBe("1e3");
+		expect(parseFieldValue("[1.10, 2]")).toEqual(["1.10", 2]);
+		expect(parseFieldValue("1.10", "number")).toBe(1.1);
+	});
+
+	test("converts to the given type or rejects the value", () => {
+		expect(parseFieldValue("3", "string")).toBe("3");
+		expect(parseFieldValue("Yes", "boolean")).toBe(true);
+		expect(parseFieldValue("a, 3", "list")).toEqual(["a", 3]);
+		expect(parseFieldValue("2024-05-01", "date")).toBe("2024-05-01");
+		expect(() => parseFieldValue("abc", "number")).toThrow(FieldValueError);
+		expect(() => parseFieldValue("maybe", "boolean")).toThrow(FieldValueError);
+		expect(() => parseFieldValue("2024-13-01", "date")).toThrow(
+			"Not a date (YYYY-MM-DD): 2024-13-01",
+		);
+	});
+});
+
+describe("parseAssignment", () => {
+	test("splits on the first =", () => {
+		expect(parseAssignment("url=a?b=c")).toEqual({ field: "url", raw: "a?b=c" });
+		expect(() => parseAssignment("=value")).toThrow(FieldValueError);
+	});
+});
+
+describe("appendValues", () => {
+	test("wraps single values and skips items already present", () => {
+		expect(appendValues(undefined, ["a"])).toEqual(["a"]);
+		expect(appendValues("a", ["a", "b"])).toEqual(["a", "b"]);
+		expect(appendValues([{ x: 1 }], [{ x: 1 }, 2])).toEqual([{ x: 1 }, 2]);
+	});
+});
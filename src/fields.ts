@@ -0,0 +1,110 @@
+import * as yaml from "yaml";
+import type { FIELD_TYPES } from "./schema";
+
+/** A value given on the command line doesn't fit its `--type`. */
+export class FieldValueError extends Error {}
+
+export type FieldType = (typeof FIELD_TYPES)[number];
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2})?)?$/;
+
+/** A value read the way YAML reads it, as long as it's a scalar or a list. */
+const inferValue = (raw: string): unknown => {
+	if (raw.trim() === "") {
+		return "";
+	}
+	const doc = yaml.parseDocument(raw);
+	if (doc.errors.length > 0) {
+		return raw;
+	}
+	// Numbers that wouldn't be written back as typed (`1.10`, `0755`, `1e3`)
+	yaml.visit(doc, {
+		Scalar: (_, node) => {
+			if (typeof node.value === "number" && String(node.value) !== node.source) {
+				node.value = node.source;
+			}
+		},
+	});
+	const value = doc.toJS();
+	return value !== null && typeof value === "object" && !Array.isArray(value)
+		? raw
+		: value;
+};
+
+/**
+ * Parse a command line value. Without a type it's read like YAML, so
+ * `true`, `3` and `[a, b]` become a boolean, a number and a list, but
+ * numbers that YAML would rewrite, like `1.10`, stay strings; a type
+ * forces the conversion and rejects values that don't fit. Lists are
+ * comma-separated or written as `[a, b]`.
+ */
+export const parseFieldValue = (raw: string, type?: FieldType): unknown => {
+	switch (type) {
+		case "string":
+			return raw;
+		case "number": {
+			const value = Number(raw);
+			if (raw.trim() === "" || Number.isNaN(value)) {
+				throw new FieldValueError(`Not a number: ${raw}`);
+			}
+			return value;
+		}
+		case "boolean":
+			if (/^(true|yes|on)$/i.test(raw)) return true;
+			if (/^(false|no|off)$/i.test(raw)) return false;
+			throw new FieldValueError(`Not a boolean: ${raw}`);
+		case "date":
+			if (!ISO_DATE.test(raw) || Number.isNaN(new Date(raw).getTime())) {
+				throw new FieldValueError(`Not a date (YYYY-MM-DD): ${raw}`);
+			}
+			return raw;
+		case "list": {
+			const value = raw.trim().startsWith("[") ? inferValue(raw) : undefined;
+			if (Array.isArray(value)) {
+				return value;
+			}
+			return raw
+				.split(",")
+				.map((item) => item.trim())
+				.filter(Boolean)
+				.map(inferValue);
+		}
+		default:
+			return inferValue(raw);
+	}
+};
+
+/** Split `field=value`; the value may contain further `=`. */
+export const parseAssignment = (assignment: string) => {
+	const separator = assignment.indexOf("=");
+	if (separator <= 0) {
+		throw new FieldValueError(`Expected <field>=<value>, got ${assignment}`);
+	}
+	return {
+		field: assignment.slice(0, separator).trim(),
+		raw: assignment.slice(separator + 1),
+	};
+};
+
+const isEqual = (a: unknown, b: unknown) =>
+	JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The value of a list field with `items` appended. A missing field becomes
+ * a list and a single value is wrapped; items already present aren't
+ * added twice.
+ */
+export const appendValues = (current: unknown, items: unknown[]) => {
+	const list =
+		current === undefined || current === null
+			? []
+			: Array.isArray(current)
+				? [...current]
+				: [current];
+	for (const item of items) {
+		if (!list.some((existing) => isEqual(existing, item))) {
+			list.push(item);
+		}
+	}
+	return list;
+};
@@ -0,0 +1,150 @@
+import { describe, expect, test } from "bun:test";
+import { editFrontMatter, parseFrontMatter, splitFrontMatter } from "./frontmatter";
+
+describe("editFrontMatter", () => {
+	test("returns notes whose values don't change byte for byte", () => {
+		const content =
+			"---\r\ntitle:   'Spaced'  # kept\r\ntags: [a, b]\r\n---\r\nBody\r\n";
+		const after = editFrontMatter(content, (frontMatter) => {
+			frontMatter.set("title", "Spaced");
+			frontMatter.set("tags", ["a", "b"]);
+			frontMatter.delete("missing");
+			frontMatter.rename("missing", "other");
+		});
+		expect(after).toBe(content);
+	});
+
+	test("only re-renders the keys that change", () => {
+		const content = [
+			"---",
+			"# About this note",
+			"title: \"Quoted\"   # trailing comment",
+			"tags:",
+			"  - a # first",
+			"  - b",
+			"status: draft",
+			"---",
+			"Body",
+			"",
+		].join("\n");
+		const after = editFrontMatter(content, (frontMatter) => {
+			frontMatter.set("tags", ["a", "b", "c"]);
+		});
+		expect(after).toBe(
+			[
+				"---",
+				"# About this note",
+				"title: \"Quoted\"   # trailing comment",
+				"tags:",
+				"  - a # first",
+				"  - b",
+				"  - c",
+				"status: draft",
+				"---",
+				"Body",
+				"",
+			].join("\n"),
+		);
+	});
+
+	test("keeps CRLF line endings", () => {
+		const content = "---\r\ntitle: A\r\ntags:\r\n  - a\r\n---\r\nBody\r\n";
+		const after = editFrontMatter(content, (frontMatter) => {
+			frontMatter.set("tags", ["a", "b"]);
+			frontMatter.set("status", "done");
+		});
+		expect(after).toBe(
+			"---\r\ntitle: A\r\ntags:\r\n  - a\r\n  - b\r\nstatus: done\r\n---\r\nBody\r\n",
+		);
+	});
+
+	test("appends new keys after the last pair", () => {
+		const content = "---\ntitle: A\n# trailing comment\n---\nBody\n";
+		const after = editFrontMatter(content, (frontMatter) => {
+			frontMatter.set("aliases", ["B"]);
+		});
+		expect(after).toBe(
+			"---\ntitle: A\naliases:\n  - B\n# trailing comment\n---\nBody\n",
+		);
+	});
+
+	test("adds front matter only when a key is set", () => {
+		expect(editFrontMatter("Body\n", (frontMatter) => frontMatter.delete("a"))).toBe(
+			"Body\n",
+		);
+		expect(
+			editFrontMatter("Body\r\n", (frontMatter) => frontMatter.set("a", 1)),
+		).toBe("---\r\na: 1\r\n---\r\nBody\r\n");
+	});
+
+	test("deletes and renames keys in place", () => {
+		const content = "---\na: 1\nb: 2 # note\nc: 3\n---\n";
+		expect(editFrontMatter(content, (frontMatter) => frontMatter.delete("b"))).toBe(
+			"---\na: 1\nc: 3\n---\n",
+		);
+		expect(
+			editFrontMatter(content, (frontMatter) => frontMatter.rename("b", "d")),
+		).toBe("---\na: 1\nd: 2 # note\nc: 3\n---\n");
+		expect(() =>
+			editFrontMatter(content, (frontMatter) => frontMatter.rename("a", "c")),
+		).toThrow("Both a and c are set");
+	});
+
+	test("keeps the indent width of the file", () => {
+		const content = "---\ntags:\n    - a\naliases:\n    - x\n---\n";
+		const after = editFrontMatter(content, (frontMatter) => {
+			frontMatter.set("tags", ["a", "b"]);
+		});
+		expect(after).toBe("---\ntags:\n    - a\n    - b\naliases:\n    - x\n---\n");
+	});
+
+	test("keeps unindented sequences", () => {
+		const content = "---\ntags:\n- a\n---\n";
+		const after = editFrontMatter(content, (frontMatter) => {
+			frontMatter.set("tags", ["a", "b"]);
+		});
+		expect(after).toBe("---\ntags:\n- a\n- b\n---\n");
+	});
+
+	test("rejects front matter it can't edit safely", () => {
+		expect(() =>
+			editFrontMatter("---\na: [1\n---\n", (frontMatter) => frontMatter.set("a", 1)),
+		).toThrow();
+		expect(() =>
+			editFrontMatter("---\n- a\n---\n", (frontMatter) => frontMatter.set("a", 1)),
+		).toThrow("Front matter is not a mapping");
+	});
+});
+
+describe("parseFrontMatter", () => {
+	test("reports key lines and YAML errors with file lines", () => {
+		const parsed = parseFrontMatter("---\ntitle: A\n\ndate: 2024-05-01\n---\n");
+		expect(parsed.data).toEqual({ title: "A", date: "2024-05-01" });
+		expect(parsed.lines).toEqual(
+			new Map([
+				["title", 2],
+				["date", 4],
+			]),
+		);
+		expect(parseFrontMatter("---\ntitle: A\ntitle: B\n---\n").errors[0]?.line).toBe(
+			3,
+		);
+	});
+
+	test("reports the file line of invalid YAML without yaml's own line", () => {
+		expect(parseFrontMatter("---\ntitle: A\nbad: : x\n---\n").errors).toEqual([
+			{
+				message: "Nested mappings are not allowed in compact mappings at column 6",
+				line: 3,
+			},
+		]);
+		expect(parseFrontMatter("---\na: 1\n\tb: 2\n---\n").errors[0]?.line).toBe(3);
+	});
+});
+
+describe("splitFrontMatter", () => {
+	test("needs the block at the start of the file", () => {
+		expect(splitFrontMatter("Body\n---\na: 1\n---\n")).toBeUndefined();
+		expect(splitFrontMatter("---\na: 1\n...\nBody")?.rest).toBe("Body");
+	});
+});
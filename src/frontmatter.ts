@@ -0,0 +1,268 @@
+import * as yaml from "yaml";
+
+export type FrontMatterEditor = {
+	/** Plain JS value of a top-level key. */
+	get: (key: string) => unknown;
+	has: (key: string) => boolean;
+	/**
+	 * Set a top-level key. Existing scalar and list nodes are updated in place
+	 * so quoting, flow/block style and comments survive.
+	 */
+	set: (key: string, value: unknown) => void;
+	delete: (key: string) => void;
+	/** Rename a top-level key in place, keeping its value and position. */
+	rename: (from: string, to: string) => void;
+};
+
+// Opening line, YAML source and closing line, as parsed by `front-matter`
+const FRONT_MATTER =
+	/^(\uFEFF?---[ \t]*(\r?\n))([\s\S]*?)(^(?:---|\.\.\.)[ \t]*(?:\r?\n|$))/m;
+
+/** The front matter block and the rest of a note, or undefined without one. */
+export const splitFrontMatter = (content: string) => {
+	const match = content.match(FRONT_MATTER);
+	if (!match || match.index !== 0) {
+		return undefined;
+	}
+	return {
+		open: match[1],
+		eol: match[2],
+		source: match[3],
+		close: match[4],
+		rest: content.slice(match[0].length),
+	};
+};
+
+export type FrontMatterSource = {
+	/** Values as YAML reads them; dates stay strings. */
+	data: Record<string, unknown>;
+	/** 1-based file line of each top-level key. */
+	lines: Map<string, number>;
+	/** YAML errors with their file line. */
+	errors: { message: string; line: number }[];
+};
+
+/**
+ * Parse the front matter of a note with the source positions of its keys,
+ * for reporting problems. Unlike `front-matter`, invalid YAML is returned
+ * as errors instead of thrown.
+ */
+export const parseFrontMatter = (content: string): FrontMatterSource => {
+	const parts = splitFrontMatter(content);
+	if (!parts) {
+		return { data: {}, lines: new Map(), errors: [] };
+	}
+	// The source starts on the line after the opening `---`
+	const lineAt = (offset: number) =>
+		2 + (parts.source.slice(0, offset).match(/\n/g) || []).length;
+	const doc = yaml.parseDocument(parts.source);
+	// yaml counts its "at line N" from the opening `---`; keep only the column
+	const errors = doc.errors.map((error) => ({
+		message: error.message
+			.split("\n")[0]
+			.replace(/ at line \d+, (column \d+):$/, " at $1"),
+		line: lineAt(error.pos[0]),
+	}));
+	if (errors.length > 0) {
+		return { data: {}, lines: new Map(), errors };
+	}
+	if (doc.contents !== null && !yaml.isMap(doc.contents)) {
+		return {
+			data: {},
+			lines: new Map(),
+			errors: [{ message: "Front matter is not a mapping", line: 2 }],
+		};
+	}
+	const lines = new Map<string, number>();
+	for (const pair of doc.contents?.items || []) {
+		if (yaml.isScalar(pair.key) && pair.key.range) {
+			lines.set(String(pair.key.value), lineAt(pair.key.range[0]));
+		}
+	}
+	const data = doc.toJS() || {};
+	return { data, lines, errors: [] };
+};
+
+const isEqual = (a: unknown, b: unknown) =>
+	JSON.stringify(a) === JSON.stringify(b);
+
+/** Match the sequence indentation and indent width already used in the file. */
+const detectStyle = (source: string) => {
+	const sequence = source.match(/^[^\s#][^\n]*:[ \t]*\r?\n( *)- /m);
+	const nested = source.match(/^[^\s#][^\n]*:[ \t]*\r?\n( +)[^\s-]/m);
+	return {
+		indentSeq: sequence ? sequence[1].length > 0 : true,
+		// Indented list items give the width too, e.g. `tags:\n    - a`
+		indent: nested?.[1].length || sequence?.[1].length || 2,
+	};
+};
+
+const updateNode = (doc: yaml.Document, node: unknown, value: unknown) => {
+	if (yaml.isSeq(node) && Array.isArray(value)) {
+		// Keep the existing item nodes (and their comments) that are still listed
+		const unused = [...node.items];
+		node.items = value.map((item) => {
+			const reused = unused.findIndex((existing) =>
+				isEqual(yaml.isNode(existing) ? existing.toJS(doc) : existing, item),
+			);
+			return reused === -1
+				? doc.createNode(item)
+				: unused.splice(reused, 1)[0];
+		});
+		return node;
+	}
+	if (
+		yaml.isScalar(node) &&
+		!Array.isArray(value) &&
+		(value === null || typeof value !== "object")
+	) {
+		node.value = value;
+		return node;
+	}
+	return doc.createNode(value);
+};
+
+/**
+ * Edit the front matter of a note without reformatting it. Only the top-level
+ * keys that actually change are re-rendered; every other byte of the file,
+ * including comments, key order and line endings, is kept. Content without
+ * front matter only gets a block when a key is set, and a note whose values
+ * don't change is returned unchanged.
+ */
+export const editFrontMatter = (
+	content: string,
+	edit: (frontMatter: FrontMatterEditor) => void,
+) => {
+	const parts = splitFrontMatter(content);
+	const source = parts ? parts.source : "";
+	const eol = parts?.eol || content.match(/\r?\n/)?.[0] || "\n";
+	const doc = yaml.parseDocument(source);
+	if (doc.errors.length > 0) {
+		throw doc.errors[0];
+	}
+	if (doc.contents !== null && !yaml.isMap(doc.contents)) {
+		throw new Error("Front matter is not a mapping");
+	}
+	const map: yaml.YAMLMap = doc.contents || new yaml.YAMLMap();
+	const keyOf = (pair: yaml.Pair) =>
+		String(yaml.isScalar(pair.key) ? pair.key.value : pair.key);
+	const findPair = (key: string) =>
+		map.items.find((pair) => keyOf(pair) === key);
+
+	// Source range of every pair, recorded before edits replace value nodes
+	const original = map.items.flatMap((pair) => {
+		const keyRange = yaml.isNode(pair.key) ? pair.key.range : undefined;
+		const valueRange = yaml.isNode(pair.value) ? pair.value.range : undefined;
+		if (!keyRange) {
+			return [];
+		}
+		const end = valueRange ? valueRange[2] : keyRange[2];
+		return [{ key: keyOf(pair), pair, start: keyRange[0], end }];
+	});
+	const touched = new Set<string>();
+
+	edit({
+		get: (key) => {
+			const value = findPair(key)?.value;
+			return yaml.isNode(value) ? value.toJS(doc) : value;
+		},
+		has: (key) => !!findPair(key),
+		set: (key, value) => {
+			const pair = findPair(key);
+			if (value === undefined) {
+				if (pair) {
+					map.items.splice(map.items.indexOf(pair), 1);
+					touched.add(key);
+				}
+				return;
+			}
+			if (!pair) {
+				map.items.push(
+					new yaml.Pair(new yaml.Scalar(key), doc.createNode(value)),
+				);
+				touched.add(key);
+				return;
+			}
+			const current = yaml.isNode(pair.value)
+				? pair.value.toJS(doc)
+				: pair.value;
+			if (!isEqual(current, value)) {
+				pair.value = updateNode(doc, pair.value, value);
+				touched.add(key);
+			}
+		},
+		delete: (key) => {
+			const pair = findPair(key);
+			if (pair) {
+				map.items.splice(map.items.indexOf(pair), 1);
+				touched.add(key);
+			}
+		},
+		rename: (from, to) => {
+			const pair = findPair(from);
+			if (!pair || from === to) {
+				return;
+			}
+			if (findPair(to)) {
+				throw new Error(`Both ${from} and ${to} are set`);
+			}
+			// Touched under the old name, so the pair is re-rendered where it was
+			touched.add(keyOf(pair));
+			pair.key = new yaml.Scalar(to);
+		},
+	});
+
+	if (touched.size === 0) {
+		return content;
+	}
+
+	const style = detectStyle(source);
+	const render = (pair: yaml.Pair) => {
+		const key = yaml.isNode(pair.key) ? pair.key.clone() : pair.key;
+		if (yaml.isNode(key)) {
+			// Comments above the key stay where they are in the source
+			key.commentBefore = undefined;
+			key.spaceBefore = undefined;
+		}
+		const single = new yaml.Document();
+		single.contents = new yaml.YAMLMap();
+		single.contents.items.push(new yaml.Pair(key, pair.value));
+		return single
+			.toString({ ...style, lineWidth: 0, flowCollectionPadding: false })
+			.replace(/\n$/, "");
+	};
+
+	const edits: { start: number; end: number; text: string }[] = [];
+	let appendAt = source.length;
+	for (const { key, pair, start, end } of original) {
+		if (touched.has(key)) {
+			const trailing = source.slice(start, end).match(/\r?\n$/) ? eol : "";
+			const text = map.items.includes(pair) ? render(pair) + trailing : "";
+			edits.push({ start, end, text: text.replace(/\r?\n/g, eol) });
+		}
+		appendAt = end;
+	}
+	// New keys go after the last existing pair
+	const existing = new Set(original.map(({ pair }) => pair));
+	const added = map.items.filter((pair) => !existing.has(pair));
+	if (added.length > 0) {
+		const before = source.slice(0, appendAt);
+		const lead = before && !before.endsWith("\n") ? eol : "";
+		const text = added
+			.map((pair) => render(pair).replace(/\r?\n/g, eol) + eol)
+			.join("");
+		edits.push({ start: appendAt, end: appendAt, text: lead + text });
+	}
+
+	// Splice from the end so earlier ranges stay valid
+	let updated = source;
+	edits.sort((a, b) => b.start - a.start);
+	for (const { start, end, text } of edits) {
+		updated = updated.slice(0, start) + text + updated.slice(end);
+	}
+
+	if (!parts) {
+		return `---${eol}${updated}---${eol}${content}`;
+	}
+	return parts.open + updated + parts.close + parts.rest;
+};
@@ -0,0 +1,30 @@
+import { describe, expect, test } from "bun:test";
+import { fuzzyFilter, fuzzyMatch } from "./fuzzy";
+
+describe("fuzzyMatch", () => {
+	test("prefers word starts and matches every term", () => {
+		expect(fuzzyMatch("pn", "Project Notes")?.positions).toEqual([0, 8]);
+		expect(fuzzyMatch("notes proj", "Project Notes")?.positions).toEqual([
+			0, 1, 2, 3, 8, 9, 10, 11, 12,
+		]);
+		expect(fuzzyMatch("px", "Project Notes")).toBeUndefined();
+		expect(fuzzyMatch("", "anything")?.positions).toEqual([]);
+	});
+
+	test("counts positions in code points like Array.from", () => {
+		const text = "🎉 Party İdeas";
+		const { positions } = fuzzyMatch("pİ", text) || { positions: [] };
+		expect(positions).toEqual([2, 8]);
+		expect(positions.map((i) => Array.from(text)[i])).toEqual(["P", "İ"]);
+	});
+});
+
+describe("fuzzyFilter", () => {
+	test("ranks consecutive matches and shorter texts first", () => {
+		const items = ["Archive/Notes old.md", "Notes.md", "N o t e s.md"];
+		expect(
+			fuzzyFilter(items, "notes", (item) => item).map(({ item }) => item),
+		).toEqual(["Notes.md", "Archive/Notes old.md", "N o t e s.md"]);
+		expect(fuzzyFilter(items, " ", (item) => item)).toHaveLength(3);
+	});
+});
@@ -0,0 +1,102 @@
+export type FuzzyMatch = {
+	score: number;
+	/** Code point indices of the matched characters, as in `Array.from(text)`. */
+	positions: number[];
+};
+
+const WORD_START = /[\s/\\_\-.#]/;
+
+/**
+ * Match one term as a subsequence of `text`. With `wordStarts`, a later
+ * occurrence at the start of a word is taken over an earlier one inside a
+ * word, so `pn` matches the N of "Project Notes".
+ */
+const matchTerm = (
+	term: string,
+	text: string,
+	wordStarts: boolean,
+): FuzzyMatch | undefined => {
+	// By code point, so emoji and other astral characters count as one
+	const chars = Array.from(text);
+	const lower = chars.map((char) => char.toLowerCase());
+	const isWordStart = (i: number) => i === 0 || WORD_START.test(chars[i - 1]);
+	const positions: number[] = [];
+	let score = 0;
+	let from = 0;
+	for (const char of Array.from(term, (point) => point.toLowerCase())) {
+		let at = lower.indexOf(char, from);
+		if (at === -1) {
+			return undefined;
+		}
+		if (wordStarts) {
+			for (let i = at; i !== -1; i = lower.indexOf(char, i + 1)) {
+				if (isWordStart(i)) {
+					at = i;
+					break;
+				}
+			}
+		}
+		const previous = positions[positions.length - 1];
+		score += 1;
+		if (previous !== undefined && at === previous + 1) {
+			score += 5;
+		} else if (previous !== undefined) {
+			score -= Math.min(at - previous - 1, 5) / 5;
+		}
+		if (isWordStart(at)) {
+			score += 3;
+		}
+		positions.push(at);
+		from = at + 1;
+	}
+	return { score, positions };
+};
+
+/**
+ * Fuzzy-match a filter against a text, case-insensitively. Every
+ * space-separated term must appear in order somewhere in the text;
+ * consecutive characters and word starts score higher. An empty filter
+ * matches everything with a score of 0.
+ */
+export const fuzzyMatch = (
+	filter: string,
+	text: string,
+): FuzzyMatch | undefined => {
+	const terms = filter.split(/\s+/).filter(Boolean);
+	let score = 0;
+	const positions = new Set<number>();
+	for (const term of terms) {
+		const match =
+			matchTerm(term, text, true) || matchTerm(term, text, false);
+		if (!match) {
+			return undefined;
+		}
+		score += match.score;
+		for (const position of match.positions) {
+			positions.add(position);
+		}
+	}
+	// Shorter texts win ties, so exact names rank above longer paths
+	return {
+		score: score - Array.from(text).length / 1000,
+		positions: [...positions].sort((a, b) => a - b),
+	};
+};
+
+/** The items matching a filter, best match first. */
+export const fuzzyFilter = <T>(
+	items: T[],
+	filter: string,
+	text: (item: T) => string,
+) => {
+	if (!filter.trim()) {
+		return items.map((item) => ({ item, positions: [] as number[] }));
+	}
+	return items
+		.flatMap((item) => {
+			const match = fuzzyMatch(filter, text(item));
+			return match ? [{ item, ...match }] : [];
+		})
+		.sort((a, b) => b.score - a.score)
+		.map(({ item, positions }) => ({ item, positions }));
+};
@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { buildGraph, type Graph, type GraphOptions, renderGraph } from "./graph";
+import { rebuildVaultIndex } from "./vault-index";
+
+let root: string;
+
+const writeNote = async (relPath: string, content: string) => {
+	await fs.mkdir(path.dirname(path.join(root, relPath)), { recursive: true });
+	await fs.writeFile(path.join(root, relPath), content);
+};
+
+const build = async (options: GraphOptions = {}) => {
+	const graph = buildGraph(await rebuildVaultIndex(root), options);
+	// Index order follows the file system
+	return {
+		nodes: graph.nodes.map((node) => node.id).sort(),
+		edges: graph.edges
+			.map((edge) => `${edge.source} ${edge.type} ${edge.target} ${edge.weight}`)
+			.sort(),
+	};
+};
+
+beforeEach(async () => {
+	root = await fs.mkdtemp(path.join(os.tmpdir(), "multimatter-graph-"));
+	await writeNote("A.md", "[[B]] and [[B|again]], ![[C]], [[Missing]] #x\n");
+	await writeNote("Work/B.md", "---\ntags: [work/client]\n---\n[[C]] [[B]]\n");
+	await writeNote("Work/Deep/C.md", "[[D]] ![[image.png]]\n");
+	await writeNote("D.md", "");
+	await writeNote("E.md", "");
+	await writeNote("image.png", "");
+});
+
+afterEach(async () => {
+	await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("buildGraph", () => {
+	test("weights links and skips self, missing and attachment links", async () => {
+		expect(await build()).toEqual({
+			nodes: ["A.md", "D.md", "E.md", "Work/B.md", "Work/Deep/C.md"],
+			edges: [
+				"A.md embed Work/Deep/C.md 1",
+				"A.md link Work/B.md 2",
+				"Work/B.md link Work/Deep/C.md 1",
+				"Work/Deep/C.md link D.md 1",
+			],
+		});
+	});
+
+	test("keeps notes within depth links of the focus, in either direction", async () => {
+		expect((await build({ focus: "B" })).nodes).toEqual([
+			"A.md",
+			"Work/B.md",
+			"Work/Deep/C.md",
+		]);
+		expect((await build({ focus: "B", depth: 2 })).nodes).toEqual([
+			"A.md",
+			"D.md",
+			"Work/B.md",
+			"Work/Deep/C.md",
+		]);
+		expect((await build({ focus: "E", depth: 3 })).nodes).toEqual(["E.md"]);
+		await expect(build({ focus: "Missing" })).rejects.toThrow(
+			"Focus note not found: Missing",
+		);
+	});
+
+	test("filters by folder and nested tag before focusing", async () => {
+		expect(await build({ folder: "Work/" })).toEqual({
+			nodes: ["Work/B.md", "Work/Deep/C.md"],
+			edges: ["Work/B.md link Work/Deep/C.md 1"],
+		});
+		expect((await build({ tag: "#work" })).nodes).toEqual(["Work/B.md"]);
+		await expect(build({ folder: "Work", focus: "A" })).rejects.toThrow(
+			"Focus note not found",
+		);
+	});
+
+	test("collapses folders and adds tag nodes", async () => {
+		expect(await build({ collapseFolders: 1, tagNodes: true })).toEqual({
+			nodes: ["#work/client", "#x", "A.md", "D.md", "E.md", "Work/"],
+			edges: [
+				"A.md embed Work/ 1",
+				"A.md link Work/ 2",
+				"A.md tag #x 1",
+				"Work/ link D.md 1",
+				"Work/ tag #work/client 1",
+			],
+		});
+	});
+});
+
+describe("renderGraph", () => {
+	const graph: Graph = {
+		nodes: [
+			{ id: 'Say "hi".md', label: 'Say "hi"', type: "note" },
+			{ id: "Work/", label: "Work", type: "folder" },
+			{ id: "#x", label: "#x", type: "tag" },
+		],
+		edges: [
+			{ source: 'Say "hi".md', target: "Work/", type: "link", weight: 1 },
+			{ source: 'Say "hi".md', target: "Work/", type: "embed", weight: 3 },
+			{ source: 'Say "hi".md', target: "#x", type: "tag", weight: 1 },
+		],
+	};
+
+	test("writes Graphviz dot", () => {
+		expect(renderGraph(graph, "dot")).toBe(
+			[
+				"digraph vault {",
+				"  node [shape=box, style=rounded];",
+				'  "Say \\"hi\\".md" [label="Say \\"hi\\""];',
+				'  "Work/" [label="Work", shape=folder];',
+				'  "#x" [label="#x", shape=ellipse];',
+				'  "Say \\"hi\\".md" -> "Work/";',
+				'  "Say \\"hi\\".md" -> "Work/" [style=dashed, penwidth=3];',
+				'  "Say \\"hi\\".md" -> "#x" [style=dotted, arrowhead=none];',
+				"}",
+			].join("\n"),
+		);
+	});
+
+	test("writes Mermaid with numbered ids", () => {
+		expect(renderGraph(graph, "mermaid")).toBe(
+			[
+				"graph LR",
+				'  n0["Say #quot;hi#quot;"]',
+				'  n1[/"Work"/]',
+				'  n2(("#x"))',
+				"  n0 --> n1",
+				"  n0 -.->|3| n1",
+				"  n0 -.- n2",
+			].join("\n"),
+		);
+	});
+
+	test("writes GraphML and JSON", () => {
+		const graphml = renderGraph(graph, "graphml");
+		expect(graphml).toContain(
+			'<node id="Say &quot;hi&quot;.md"><data key="label">Say &quot;hi&quot;</data><data key="type">note</data></node>',
+		);
+		expect(graphml).toContain(
+			'<edge source="Say &quot;hi&quot;.md" target="Work/"><data key="type">embed</data><data key="weight">3</data></edge>',
+		);
+		expect(JSON.parse(renderGraph(graph, "json"))).toEqual(graph);
+	});
+});
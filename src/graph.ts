@@ -0,0 +1,286 @@
+import * as path from "node:path";
+import { buildLinkGraph } from "./links";
+import { normalizeTag } from "./tags";
+import { type Note, noteTags, type VaultIndex } from "./vault-index";
+
+export const GRAPH_FORMATS = ["dot", "graphml", "mermaid", "json"] as const;
+
+export type GraphFormat = (typeof GRAPH_FORMATS)[number];
+
+export type GraphOptions = {
+	/** Only notes in this folder. */
+	folder?: string;
+	/** Only notes with this tag or one nested below it. */
+	tag?: string;
+	/** Add a node per tag with an edge from every note using it. */
+	tagNodes?: boolean;
+	/** Only notes within `depth` links of this note, in either direction. */
+	focus?: string;
+	depth?: number;
+	/** Merge notes into their folder, keeping this many folder levels. */
+	collapseFolders?: number;
+};
+
+export type GraphNode = {
+	id: string;
+	label: string;
+	type: "note" | "folder" | "tag";
+};
+
+export type GraphEdge = {
+	source: string;
+	target: string;
+	type: "link" | "embed" | "tag";
+	/** Number of links merged into the edge. */
+	weight: number;
+};
+
+export type Graph = { nodes: GraphNode[]; edges: GraphEdge[] };
+
+const toPosix = (relPath: string) => relPath.split(path.sep).join("/");
+
+const hasTag = (note: Note, tag: string) => {
+	const wanted = normalizeTag(tag).toLowerCase();
+	return noteTags(note).some((noteTag) => {
+		const lower = noteTag.toLowerCase();
+		return lower === wanted || lower.startsWith(`${wanted}/`);
+	});
+};
+
+/** Notes reachable from `focus` in at most `depth` steps over `edges`. */
+const neighbourhood = (focus: string, depth: number, edges: GraphEdge[]) => {
+	const adjacent = new Map<string, string[]>();
+	for (const { source, target } of edges) {
+		adjacent.set(source, [...(adjacent.get(source) || []), target]);
+		adjacent.set(target, [...(adjacent.get(target) || []), source]);
+	}
+	const reached = new Set([focus]);
+	let frontier = [focus];
+	for (let step = 0; step < depth && frontier.length > 0; step++) {
+		frontier = frontier
+			.flatMap((node) => adjacent.get(node) || [])
+			.filter((node) => !reached.has(node));
+		for (const node of frontier) {
+			reached.add(node);
+		}
+	}
+	return reached;
+};
+
+/** Add an edge, merging it with an existing one between the same nodes. */
+const addEdge = (
+	edges: Map<string, GraphEdge>,
+	edge: Omit<GraphEdge, "weight">,
+	weight = 1,
+) => {
+	const key = JSON.stringify([edge.source, edge.target, edge.type]);
+	const existing = edges.get(key);
+	if (existing) {
+		existing.weight += weight;
+	} else {
+		edges.set(key, { ...edge, weight });
+	}
+};
+
+/**
+ * Build the note graph of a vault: one node per note (by vault path) and one
+ * edge per linked pair, weighted by the number of links. Links to
+ * attachments and unresolved links are left out.
+ */
+export const buildGraph = (
+	index: VaultIndex,
+	options: GraphOptions = {},
+): Graph => {
+	const links = buildLinkGraph(index);
+	const folder = options.folder
+		? path.normalize(options.folder).replace(/[\\/]+$/, "")
+		: "";
+	let notes = index.notes.filter(
+		(note) =>
+			(!folder ||
+				folder === "." ||
+				note.path.startsWith(folder + path.sep)) &&
+			(!options.tag || hasTag(note, options.tag)),
+	);
+
+	const linkEdges = (selected: Note[]) => {
+		const ids = new Set(selected.map((note) => note.path));
+		const edges = new Map<string, GraphEdge>();
+		for (const note of selected) {
+			for (const link of links.outgoing.get(note.path) || []) {
+				if (
+					link.resolved &&
+					link.resolved !== note.path &&
+					ids.has(link.resolved)
+				) {
+					addEdge(edges, {
+						source: note.path,
+						target: link.resolved,
+						type: link.embed ? "embed" : "link",
+					});
+				}
+			}
+		}
+		return Array.from(edges.values());
+	};
+
+	if (options.focus) {
+		const focus = links.resolve(options.focus, "");
+		if (!focus || !notes.some((note) => note.path === focus)) {
+			throw new Error(`Focus note not found: ${options.focus}`);
+		}
+		const reached = neighbourhood(
+			focus,
+			options.depth ?? 1,
+			linkEdges(notes),
+		);
+		notes = notes.filter((note) => reached.has(note.path));
+	}
+
+	// Every note maps to the node it's drawn as
+	const nodeOf = (note: Note) => {
+		const levels = options.collapseFolders;
+		if (!levels) {
+			return toPosix(note.path);
+		}
+		const segments = toPosix(note.path).split("/").slice(0, -1);
+		return segments.length === 0
+			? toPosix(note.path)
+			: `${segments.slice(0, levels).join("/")}/`;
+	};
+	const byPath = new Map(notes.map((note) => [note.path, nodeOf(note)]));
+
+	const nodes = new Map<string, GraphNode>();
+	for (const note of notes) {
+		const id = nodeOf(note);
+		nodes.set(
+			id,
+			id.endsWith("/")
+				? { id, label: id.slice(0, -1), type: "folder" }
+				: { id, label: note.title, type: "note" },
+		);
+	}
+
+	const edges = new Map<string, GraphEdge>();
+	for (const edge of linkEdges(notes)) {
+		const source = byPath.get(edge.source) || edge.source;
+		const target = byPath.get(edge.target) || edge.target;
+		if (source === target) {
+			continue;
+		}
+		addEdge(edges, { source, target, type: edge.type }, edge.weight);
+	}
+
+	if (options.tagNodes) {
+		for (const note of notes) {
+			for (const tag of noteTags(note)) {
+				const id = `#${tag}`;
+				nodes.set(id, { id, label: id, type: "tag" });
+				addEdge(edges, { source: nodeOf(note), target: id, type: "tag" });
+			}
+		}
+	}
+
+	return {
+		nodes: Array.from(nodes.values()),
+		edges: Array.from(edges.values()),
+	};
+};
+
+const quoteDot = (text: string) =>
+	`"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+const escapeXml = (text: string) =>
+	text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+
+const toDot = ({ nodes, edges }: Graph) =>
+	[
+		"digraph vault {",
+		"  node [shape=box, style=rounded];",
+		...nodes.map(
+			(node) =>
+				`  ${quoteDot(node.id)} [label=${quoteDot(node.label)}${
+					node.type === "tag"
+						? ", shape=ellipse"
+						: node.type === "folder"
+							? ", shape=folder"
+							: ""
+				}];`,
+		),
+		...edges.map(
+			(edge) =>
+				`  ${quoteDot(edge.source)} -> ${quoteDot(edge.target)}${
+					edge.type === "link" && edge.weight === 1
+						? ""
+						: ` [${[
+								edge.type === "embed" ? "style=dashed" : "",
+								edge.type === "tag" ? "style=dotted, arrowhead=none" : "",
+								edge.weight > 1 ? `penwidth=${Math.min(edge.weight, 8)}` : "",
+							]
+								.filter(Boolean)
+								.join(", ")}]`
+				};`,
+		),
+		"}",
+	].join("\n");
+
+const toGraphml = ({ nodes, edges }: Graph) =>
+	[
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		'<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+		'  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+		'  <key id="type" for="all" attr.name="type" attr.type="string"/>',
+		'  <key id="weight" for="edge" attr.name="weight" attr.type="int"/>',
+		'  <graph id="vault" edgedefault="directed">',
+		...nodes.map(
+			(node) =>
+				`    <node id="${escapeXml(node.id)}"><data key="label">${escapeXml(node.label)}</data><data key="type">${node.type}</data></node>`,
+		),
+		...edges.map(
+			(edge) =>
+				`    <edge source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}"><data key="type">${edge.type}</data><data key="weight">${edge.weight}</data></edge>`,
+		),
+		"  </graph>",
+		"</graphml>",
+	].join("\n");
+
+const toMermaid = ({ nodes, edges }: Graph) => {
+	// Mermaid ids can't hold paths, so nodes are numbered
+	const ids = new Map(nodes.map((node, i) => [node.id, `n${i}`]));
+	const label = (text: string) => `"${text.replace(/"/g, "#quot;")}"`;
+	return [
+		"graph LR",
+		...nodes.map((node) => {
+			const id = ids.get(node.id);
+			return node.type === "tag"
+				? `  ${id}((${label(node.label)}))`
+				: node.type === "folder"
+					? `  ${id}[/${label(node.label)}/]`
+					: `  ${id}[${label(node.label)}]`;
+		}),
+		...edges.map((edge) => {
+			const arrow =
+				edge.type === "tag" ? "-.-" : edge.type === "embed" ? "-.->" : "-->";
+			const weight = edge.weight > 1 ? `|${edge.weight}|` : "";
+			return `  ${ids.get(edge.source)} ${arrow}${weight} ${ids.get(edge.target)}`;
+		}),
+	].join("\n");
+};
+
+/** Render a graph for Graphviz, yEd/Gephi, Mermaid or as JSON. */
+export const renderGraph = (graph: Graph, format: GraphFormat) => {
+	switch (format) {
+		case "graphml":
+			return toGraphml(graph);
+		case "mermaid":
+			return toMermaid(graph);
+		case "json":
+			return JSON.stringify(graph, null, 2);
+		default:
+			return toDot(graph);
+	}
+};
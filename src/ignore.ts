@@ -0,0 +1,111 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import ignore from "ignore";
+
+export type IgnoreOverrides = {
+	include?: string[];
+	exclude?: string[];
+};
+
+export type IgnoreRules = {
+	/**
+	 * True when the vault's ignore rules exclude a path relative to the vault.
+	 * Directory paths must end with a "/".
+	 */
+	ignored: (relPath: string) => boolean;
+	/** True when a note passes the `--include`/`--exclude` globs. */
+	selected: (relPath: string) => boolean;
+	/** `--glob` arguments that give `rg` the same scope. */
+	rgGlobs: string[];
+};
+
+export const IGNORE_FILE = ".multimatterignore";
+
+// Never worth indexing; a `!.trash/` line in the ignore file re-includes one
+const DEFAULT_PATTERNS = [".obsidian/", ".trash/", ".git/", ".multimatter/"];
+
+const toPosix = (relPath: string) => relPath.split(path.sep).join("/");
+
+const readLines = async (file: string) => {
+	try {
+		return (await fs.readFile(file, "utf-8"))
+			.split(/\r?\n/)
+			.filter((line) => line.trim() && !line.startsWith("#"));
+	} catch {
+		return [];
+	}
+};
+
+/**
+ * Obsidian's "Excluded files" setting: each filter is either a `/regex/` or a
+ * path prefix.
+ */
+const readObsidianFilters = async (root: string) => {
+	try {
+		const app = JSON.parse(
+			await fs.readFile(path.join(root, ".obsidian", "app.json"), "utf-8"),
+		) as { userIgnoreFilters?: string[] };
+		return (app.userIgnoreFilters || []).filter(Boolean);
+	} catch {
+		return [];
+	}
+};
+
+const obsidianMatcher = (filter: string) => {
+	const regex = filter.match(/^\/(.+)\/$/);
+	if (regex) {
+		const pattern = new RegExp(regex[1]);
+		return (relPath: string) => pattern.test(relPath);
+	}
+	return (relPath: string) => relPath.startsWith(filter);
+};
+
+const obsidianGlobs = (filter: string) =>
+	/^\/.+\/$/.test(filter)
+		? []
+		: filter.endsWith("/")
+			? [`!${filter}**`]
+			: [`!${filter}`, `!${filter}/**`];
+
+export const loadIgnoreRules = async (
+	root: string,
+	overrides: IgnoreOverrides = {},
+): Promise<IgnoreRules> => {
+	const patterns = [
+		...DEFAULT_PATTERNS,
+		...(await readLines(path.join(root, IGNORE_FILE))),
+	];
+	const obsidianFilters = await readObsidianFilters(root);
+	const fileRules = ignore().add(patterns);
+	const obsidianRules = obsidianFilters.map(obsidianMatcher);
+	const excludes = ignore().add(overrides.exclude || []);
+	const includes = ignore().add(overrides.include || []);
+	const hasIncludes = (overrides.include || []).length > 0;
+
+	return {
+		ignored: (relPath) => {
+			const posixPath = toPosix(relPath);
+			return (
+				fileRules.ignores(posixPath) ||
+				obsidianRules.some((matches) => matches(posixPath))
+			);
+		},
+		selected: (relPath) => {
+			const posixPath = toPosix(relPath);
+			return (
+				!excludes.ignores(posixPath) &&
+				(!hasIncludes || includes.ignores(posixPath))
+			);
+		},
+		rgGlobs: [
+			// Negated ignore lines can't be expressed as rg globs; the index
+			// still filters rg's results, so they only cost search time
+			...patterns
+				.filter((pattern) => !pattern.startsWith("!"))
+				.map((pattern) => `!${pattern}`),
+			...obsidianFilters.flatMap(obsidianGlobs),
+			...(overrides.exclude || []).map((pattern) => `!${pattern}`),
+			...(overrides.include || []),
+		],
+	};
+};
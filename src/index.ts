@@ -1,63 +1,209 @@
-import { Command } from "commander";
+import { Command, InvalidArgumentError, Option } from "commander";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
-import * as yaml from "yaml";
-import fm, { type FrontMatterResult } from "front-matter";
 import chalk from "chalk";
 import inquirer from "inquirer";
 import ora from "ora";
 import { spawn } from "node:child_process";
-import { marked } from "marked";
-import markedTerminal from "marked-terminal";
-import TerminalRenderer from "marked-terminal";
-import readline from "node:readline";
-import { table } from "table";
-
-const VAULT_PATH = process.env.VAULT_PATH || "./vault";
-console.log("VAULT_PATH", VAULT_PATH);
+import ignore from "ignore";
+import {
+	type ApplyOptions,
+	type ApplyResult,
+	applyChanges,
+	collectChanges,
+	type FileChange,
+	type FileFailure,
+	undoLastBatch,
+} from "./changes";
+import {
+	type DateSyncOptions,
+	formatDate,
+	parseSince,
+	planDateSync,
+} from "./dates";
+import {
+	ConfigError,
+	configPath,
+	loadConfig,
+	type ResolvedVault,
+	resolveVault,
+} from "./config";
+import { DOCTOR_CHECKS, type DoctorCheck, diagnoseVault } from "./doctor";
+import {
+	appendValues,
+	type FieldType,
+	FieldValueError,
+	parseAssignment,
+	parseFieldValue,
+} from "./fields";
+import {
+	editFrontMatter,
+	type FrontMatterEditor,
+	parseFrontMatter,
+} from "./frontmatter";
+import {
+	FIELD_TYPES,
+	lintNote,
+	loadSchema,
+	SchemaError,
+	schemaPath,
+	type Violation,
+} from "./schema";
+import {
+	buildLinkGraph,
+	findOrphans,
+	type LinkGraph,
+	type ResolvedLink,
+} from "./links";
+import { type CompiledQuery, compileQuery, QuerySyntaxError } from "./query";
+import { parseTableQuery, runTableQuery } from "./table-query";
+import {
+	parseDueFilter,
+	parseTaskRef,
+	TASK_STATUSES,
+	type Task,
+	TaskError,
+	type TaskStatus,
+	toggleTask,
+} from "./tasks";
+import { copyToClipboard, runPicker } from "./tui";
+import {
+	highlightMatch,
+	type SearchMatch,
+	type SearchOptions,
+	SearchPatternError,
+	searchNotes,
+} from "./search";
+import {
+	buildTagTree,
+	countTags,
+	mapTags,
+	normalizeTag,
+	retag,
+	rewriteInlineTags,
+	type TagCount,
+	type TagMapping,
+} from "./tags";
+import {
+	buildGraph,
+	GRAPH_FORMATS,
+	type GraphFormat,
+	type GraphOptions,
+	renderGraph,
+} from "./graph";
+import { type RenderOptions, renderNote } from "./markdown";
+import { expandMove, planMove } from "./move";
+import {
+	type VaultWatcher,
+	type WatchEvent,
+	type WatchRules,
+	watchVault,
+} from "./watch";
+import { OUTPUT_FORMATS, type OutputFormat, writeRecords } from "./output";
+import {
+	forgetNote,
+	getIndexStatus,
+	loadVaultIndex,
+	type Note,
+	noteTags,
+	notesIn,
+	readNote,
+	rebuildVaultIndex,
+	reindexNote,
+	saveVaultIndex,
+	type VaultIndex,
+} from "./vault-index";
 
 const program = new Command();
 
-const parseObsidianLinks = (content: string) =>
-	Array.from(content.matchAll(/\[\[(.*?)(?:\|.*?)?\]\]/g)).map((m) => m[1]);
+// Picked before every command from --vault, vault.path or the config file
+let vault: ResolvedVault = { path: "./vault", source: "fallback" };
+
+const ignoreOverrides = () => {
+	const { include, exclude } = program.opts<{
+		include: string[];
+		exclude: string[];
+	}>();
+	return {
+		include: [...(vault.profile?.include || []), ...include],
+		exclude: [...(vault.profile?.exclude || []), ...exclude],
+	};
+};
+
+const vaultIndex = () => loadVaultIndex(vault.path, ignoreOverrides());
+
+/** A tag given on the command line, following the vault's tag conventions. */
+const conventionalTag = (tag: string) =>
+	vault.profile?.tags?.lowercase ? tag.toLowerCase() : tag;
+
+const parseList = (input: string) => input.split(",").map((item) => item.trim());
+
+const collect = (value: string, previous: string[]) => [...previous, value];
+
+const parseCount = (value: string) => {
+	const count = Number(value);
+	if (!Number.isInteger(count) || count < 0) {
+		throw new InvalidArgumentError("Not a non-negative integer.");
+	}
+	return count;
+};
+
+const parseTag = (value: string) => {
+	const tag = normalizeTag(value);
+	if (!tag) {
+		throw new InvalidArgumentError("Not a valid tag.");
+	}
+	return tag;
+};
+
+const parseWhen = (value: string) => {
+	const since = parseSince(value);
+	if (!since) {
+		throw new InvalidArgumentError("Not a date or a duration like 7d.");
+	}
+	return since;
+};
+
+const parseDue = (value: string) => {
+	const filter = parseDueFilter(value, formatDate(new Date(), "YYYY-MM-DD"));
+	if (!filter) {
+		throw new InvalidArgumentError(
+			"Not today, overdue, none, a date or a range like 2024-05-01..today.",
+		);
+	}
+	return filter;
+};
 
-const parseInlineTags = (content: string) =>
-	Array.from(content.matchAll(/(?<!\S)#([a-zA-Z0-9_-]+)/g)).map((m) => m[1]);
+const parseFolderTag = (value: string, previous: WatchRules["folderTags"]) => {
+	const [folder, tag] = value.split("=");
+	if (!folder || !tag || !normalizeTag(tag)) {
+		throw new InvalidArgumentError("Expected <folder>=<tag>.");
+	}
+	return [...previous, { folder, tag: normalizeTag(tag) }];
+};
 
-const listFiles = async () => {
+const listFiles = async (format: OutputFormat = "text") => {
 	const spinner = ora("Listing files...").start();
 	try {
-		const files: string[] = [];
-
-		const scanDir = async (dir: string) => {
-			const entries = await fs.readdir(dir, { withFileTypes: true });
-			for (const entry of entries) {
-				const fullPath = path.join(dir, entry.name);
-				const relPath = path.relative(VAULT_PATH, fullPath);
-
-				if (entry.isDirectory() && entry.name !== '.trash' && entry.name !== 'Utilities') {
-					await scanDir(fullPath);
-				} else if (entry.name.endsWith(".md")) {
-					files.push(relPath);
-				}
-			}
-		};
-
-		await scanDir(VAULT_PATH);
+		const index = await vaultIndex();
+		// Index order depends on the file system and on cache reuse
+		const records = index.notes
+			.map((note) => ({
+				path: note.path,
+				title: note.title,
+				tags: note.tags,
+			}))
+			.sort((a, b) => a.path.localeCompare(b.path));
 		spinner.succeed("Files found");
-		console.log(files.join("\n"));
-		console.log(chalk.green(`📁 ${files.length} files found`));
-        
-		const filesWithoutTags = await Promise.all(
-			files.map(async (file) => {
-				const content = await fs.readFile(path.join(VAULT_PATH, file), "utf-8");
-				const { attributes } = fm(content);
-				const currentTags = (attributes as { tags?: string[] }).tags || [];
-				return currentTags.length === 0;
-			})
-		);
-		const filesWithoutTagsCount = filesWithoutTags.filter(Boolean).length;
-		console.log(
+		writeRecords(format, records, ["path", "title", "tags"], () =>
+			console.log(records.map((record) => record.path).join("\n")),
+		);
+		console.error(chalk.green(`📁 ${records.length} files found`));
+
+		const filesWithoutTagsCount = records.filter(
+			(record) => record.tags.length === 0,
+		).length;
+		console.error(
 			chalk.green(
 				`🏷️ ${filesWithoutTagsCount} files without frontmatter tags`
 			),
@@ -65,72 +211,179 @@ const listFiles = async () => {
 	} catch (error) {
 		spinner.fail("Failed to list files");
 		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
 	}
 };
 
-const updateTags = async (files: string[], tags: string[], replace = false) => {
-	const spinner = ora("Updating tags...").start();
-	try {
-		for (const file of files) {
-			const fullPath = path.join(VAULT_PATH, file);
-			const content = await fs.readFile(fullPath, "utf-8");
-			const { attributes, body } = fm(content);
+type WriteOptions = {
+	dryRun?: boolean;
+	yes?: boolean;
+	failFast?: boolean;
+};
+
+/** Reindex a written note, or track an attachment or deleted file. */
+const updateIndexedFile = async (
+	index: VaultIndex,
+	file: string,
+	exists: boolean,
+) => {
+	if (!exists) {
+		forgetNote(index, file);
+	} else if (file.endsWith(".md")) {
+		await reindexNote(index, file);
+	} else if (!index.files.includes(file)) {
+		index.files.push(file);
+	}
+};
 
-			const currentTags = (attributes as { tags?: string[] }).tags || [];
+/** Print the files that failed and a written/unchanged/failed summary. */
+const reportBatch = (result: ApplyResult) => {
+	for (const failure of result.failed) {
+		console.error(chalk.red(`✖ ${failure.path}: ${failure.reason}`));
+	}
+	if (result.written.length > 0 || result.failed.length > 0) {
+		console.error(
+			chalk.gray(
+				`${result.written.length} written, ${result.skipped.length} unchanged, ${result.failed.length} failed`,
+			),
+		);
+	}
+	if (result.failed.length > 0) {
+		process.exitCode = 1;
+	}
+};
 
-			const newTags = replace ? tags : [...new Set([...currentTags, ...tags])];
-			const newFrontmatter = {
-				...(attributes as object),
-				tags: newTags,
-			};
+/**
+ * Apply changes, keep the index in sync and report the outcome. `failed`
+ * are files whose change couldn't be prepared; with `failFast` any of them
+ * stops the batch before anything is written.
+ */
+const writeChanges = async (
+	index: VaultIndex,
+	changes: FileChange[],
+	options: ApplyOptions,
+	failed: FileFailure[] = [],
+) => {
+	if (options.failFast && failed.length > 0) {
+		const result: ApplyResult = { written: [], skipped: [], failed };
+		reportBatch(result);
+		return result;
+	}
+	const result = await applyChanges(vault.path, changes, {
+		...options,
+		// Records from `--format` go to stdout, so diffs mustn't mix with them
+		diffToStderr: program.opts<{ format: string }>().format !== "text",
+	});
+	result.failed.unshift(...failed);
+	const { written } = result;
+	for (const change of written) {
+		await updateIndexedFile(
+			index,
+			change.path,
+			change.after !== undefined || change.from !== undefined,
+		);
+		if (change.from !== undefined) {
+			forgetNote(index, change.from);
+		}
+	}
+	if (written.length > 0) {
+		await saveVaultIndex(index);
+	}
+	reportBatch(result);
+	return result;
+};
 
-			const newContent = `---\n${yaml.stringify(newFrontmatter)}---\n${body}`;
-			await fs.writeFile(fullPath, newContent);
+const tagChange = async (
+	file: string,
+	tags: string[],
+	replace: boolean,
+): Promise<FileChange> => {
+	const note = await readNote(vault.path, file);
+	const newTags = replace ? tags : [...new Set([...note.tags, ...tags])];
+	const newContent = editFrontMatter(note.content, (frontMatter) => {
+		frontMatter.set("tags", newTags);
+		// `tag` is merged into `tags` when reading, so don't keep both
+		frontMatter.delete("tag");
+	});
+	return { path: file, before: note.content, after: newContent };
+};
+
+const updateTags = async (
+	files: string[],
+	tags: string[],
+	replace = false,
+	options: WriteOptions = {},
+) => {
+	const spinner = ora("Updating tags...").start();
+	try {
+		const index = await vaultIndex();
+		const { changes, failed } = await collectChanges(
+			files.map((file) => path.normalize(file)),
+			(file) => tagChange(file, tags, replace),
+			options.failFast,
+		);
+		spinner.stop();
+		const { written } = await writeChanges(
+			index,
+			changes,
+			{ ...options, label: "tags update" },
+			failed,
+		);
+		if (written.length > 0) {
+			spinner.succeed(`Tags updated in ${written.length} files`);
 		}
-		spinner.succeed("Tags updated");
 	} catch (error) {
 		spinner.fail("Failed to update tags");
 		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
 	}
 };
 
 // Get all unique tags across files
-const getAllTags = async (subpath = "") => {
+const getAllTags = async (
+	subpath = "",
+	format: OutputFormat = "text",
+	tree = false,
+) => {
 	const spinner = ora("Getting tags...").start();
 	try {
-		const tags = new Set<string>();
-		const basePath = path.join(VAULT_PATH, subpath);
-
-		const scanDir = async (dir: string) => {
-			const entries = await fs.readdir(dir, { withFileTypes: true });
-			for (const entry of entries) {
-				const fullPath = path.join(dir, entry.name);
-
-				if (entry.isDirectory()) {
-					await scanDir(fullPath);
-				} else if (entry.name.endsWith(".md")) {
-					const content = await fs.readFile(fullPath, "utf-8");
-					const { attributes } = fm(content);
-					const fileTags = Array.isArray(
-						(attributes as { tags?: string[] }).tags,
-					)
-						? (attributes as { tags?: string[] }).tags
-						: [];
-					if (fileTags) {
-						for (const tag of fileTags) {
-							tags.add(tag);
-						}
-					}
+		const index = await vaultIndex();
+		const notes = notesIn(index, subpath);
+		const tagsPerNote = notes.map(noteTags);
+		spinner.succeed("Tags found");
+		for (const note of notes.filter((note) => note.frontMatterError)) {
+			console.error(
+				chalk.yellow(
+					`⚠ ${note.path}: ${note.frontMatterError} (only inline tags counted)`,
+				),
+			);
+		}
+
+		if (tree) {
+			const nodes = buildTagTree(tagsPerNote);
+			writeRecords(format, nodes, ["tag", "name", "depth", "count"], () => {
+				for (const node of nodes) {
+					console.log(
+						`${"  ".repeat(node.depth)}${node.name} ${chalk.gray(node.count)}`,
+					);
 				}
-			}
-		};
+			});
+			return;
+		}
 
-		await scanDir(basePath);
-		spinner.succeed("Tags found");
-		console.log(Array.from(tags).join(", "));
+		const records: TagCount[] = Array.from(
+			countTags(tagsPerNote),
+			([tag, count]) => ({ tag, count }),
+		).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+		writeRecords(format, records, ["tag", "count"], () => {
+			for (const record of records) {
+				console.log(`${record.tag} ${chalk.gray(record.count)}`);
+			}
+		});
 	} catch (error) {
 		spinner.fail("Failed to get tags");
 		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
 	}
 };
 
@@ -138,48 +391,474 @@ const addTagToSubpath = async (
 	subpath: string,
 	tag: string,
 	replace = false,
+	options: WriteOptions = {},
 ) => {
 	const spinner = ora("Adding tag to files...").start();
 	try {
-		const basePath = path.join(VAULT_PATH, subpath);
+		const index = await vaultIndex();
+		const { changes, failed } = await collectChanges(
+			notesIn(index, subpath).map((note) => note.path),
+			(file) => tagChange(file, [tag], replace),
+			options.failFast,
+		);
+		spinner.stop();
+		const { written } = await writeChanges(
+			index,
+			changes,
+			{ ...options, label: "tags add" },
+			failed,
+		);
+		if (written.length > 0) {
+			spinner.succeed(`Tag added to ${written.length} files`);
+		}
+	} catch (error) {
+		spinner.fail("Failed to add tag");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
 
-		const scanDir = async (dir: string) => {
-			const entries = await fs.readdir(dir, { withFileTypes: true });
-			for (const entry of entries) {
-				const fullPath = path.join(dir, entry.name);
+/** Remove `dir` and its parents up to the vault root while they're empty. */
+const removeEmptyDirs = async (dir: string) => {
+	let current = dir;
+	while (current && current !== ".") {
+		const removed = await fs
+			.rmdir(path.join(vault.path, current))
+			.then(() => true)
+			.catch(() => false);
+		if (!removed) {
+			return;
+		}
+		current = path.dirname(current);
+	}
+};
+
+const moveNotes = async (
+	from: string,
+	to: string,
+	options: WriteOptions = {},
+	format: OutputFormat = "text",
+) => {
+	const spinner = ora("Planning move...").start();
+	try {
+		const index = await vaultIndex();
+		const moves = await expandMove(index, from, to);
+		const { changes, rewritten } = await planMove(index, moves);
+		spinner.stop();
+		const { written } = await writeChanges(index, changes, {
+			...options,
+			label: `mv ${from} ${to}`,
+		});
+		if (written.length === 0 && !options.dryRun) {
+			return;
+		}
+		if (!options.dryRun) {
+			for (const dir of new Set(Array.from(moves.keys()).map(path.dirname))) {
+				await removeEmptyDirs(dir);
+			}
+		}
+		const edited = new Set(
+			rewritten.map((link) => moves.get(link.source) ?? link.source),
+		);
+		const linksIn = (file: string) =>
+			rewritten.filter(
+				(link) => (moves.get(link.source) ?? link.source) === file,
+			).length;
+		// One record per moved file and per other note whose links changed
+		const destinations = new Set(moves.values());
+		const records: { path: string; from: string | null; links: number }[] = [
+			...Array.from(moves, ([source, destination]) => ({
+				path: destination,
+				from: source,
+				links: linksIn(destination),
+			})),
+			...Array.from(edited)
+				.filter((file) => !destinations.has(file))
+				.map((file) => ({ path: file, from: null, links: linksIn(file) })),
+		];
+		writeRecords(format, records, ["path", "from", "links"], () => {
+			for (const [source, destination] of moves) {
+				console.log(`${source} → ${destination}`);
+			}
+			for (const file of edited) {
+				console.log(`updated links in ${file}`);
+			}
+		});
+		spinner.succeed(
+			options.dryRun
+				? `Would move ${moves.size} files and rewrite ${rewritten.length} links in ${edited.size} notes`
+				: `Moved ${moves.size} files and rewrote ${rewritten.length} links in ${edited.size} notes`,
+		);
+	} catch (error) {
+		spinner.fail("Failed to move");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
 
-				if (entry.isDirectory()) {
-					await scanDir(fullPath);
-				} else if (entry.name.endsWith(".md")) {
-					const content = await fs.readFile(fullPath, "utf-8");
-					const { attributes, body } = fm(content);
+const normalizeTags = async (subpath = "", options: WriteOptions = {}) => {
+	const spinner = ora("Normalizing tags...").start();
+	try {
+		const index = await vaultIndex();
+		const { changes, failed } = await collectChanges(
+			notesIn(index, subpath).map((note) => note.path),
+			async (file) => {
+				const note = await readNote(vault.path, file);
+				const after = editFrontMatter(note.content, (frontMatter) => {
+					if (note.tags.length > 0) {
+						frontMatter.set("tags", note.tags);
+					}
+					frontMatter.delete("tag");
+				});
+				return { path: note.path, before: note.content, after };
+			},
+			options.failFast,
+		);
+		spinner.stop();
+		const { written } = await writeChanges(
+			index,
+			changes,
+			{ ...options, label: "tags normalize" },
+			failed,
+		);
+		if (written.length > 0) {
+			spinner.succeed(`Tags normalized in ${written.length} files`);
+		}
+	} catch (error) {
+		spinner.fail("Failed to normalize tags");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
 
-					const currentTags = (attributes as { tags?: string[] }).tags || [];
+type RetagRecord = {
+	path: string;
+	from: string;
+	/** Empty when the tag was removed. */
+	to: string;
+	frontMatter: boolean;
+	inline: number;
+};
 
-					const newTags = replace ? [tag] : [...new Set([...currentTags, tag])];
-					const newFrontmatter = {
-						...(attributes as object),
-						tags: newTags,
-					};
+const retagChange = async (
+	file: string,
+	mapping: TagMapping,
+	records: RetagRecord[],
+): Promise<FileChange> => {
+	const note = await readNote(vault.path, file);
+	const record = (from: string, to: string | null) => {
+		let existing = records.find(
+			(r) => r.path === file && r.from === from && r.to === (to || ""),
+		);
+		if (!existing) {
+			existing = {
+				path: file,
+				from,
+				to: to || "",
+				frontMatter: false,
+				inline: 0,
+			};
+			records.push(existing);
+		}
+		return existing;
+	};
+
+	// Inline tags are only rewritten below the front matter
+	const headLength = note.content
+		.split("\n")
+		.slice(0, note.bodyBegin - 1)
+		.reduce((length, line) => length + line.length + 1, 0);
+	const { text, replacements } = rewriteInlineTags(
+		note.content.slice(headLength),
+		mapping,
+	);
+	for (const { from, to } of replacements) {
+		record(from, to).inline++;
+	}
 
-					const newContent = `---\n${yaml.stringify(newFrontmatter)}---\n${body}`;
-					await fs.writeFile(fullPath, newContent);
-				}
+	const tags = mapTags(note.tags, mapping);
+	const after = editFrontMatter(
+		note.content.slice(0, headLength) + text,
+		(frontMatter) => {
+			if (tags.join() === note.tags.join()) {
+				return;
 			}
-		};
+			for (const tag of note.tags.filter((tag) => mapping(tag) !== tag)) {
+				record(tag, mapping(tag)).frontMatter = true;
+			}
+			frontMatter.set("tags", tags.length > 0 ? tags : undefined);
+			frontMatter.delete("tag");
+		},
+	);
+	return { path: file, before: note.content, after };
+};
+
+/** Rename, merge or remove tags in front matter and inline across notes. */
+const retagNotes = async (
+	mapping: TagMapping,
+	label: string,
+	subpath = "",
+	options: WriteOptions = {},
+	format: OutputFormat = "text",
+) => {
+	const spinner = ora("Updating tags...").start();
+	try {
+		const index = await vaultIndex();
+		let records: RetagRecord[] = [];
+		const { changes, failed } = await collectChanges(
+			notesIn(index, subpath)
+				.filter((note) => noteTags(note).some((tag) => mapping(tag) !== tag))
+				.map((note) => note.path),
+			(file) => retagChange(file, mapping, records),
+			options.failFast,
+		);
+		spinner.stop();
+
+		// A note that failed halfway may have recorded inline replacements
+		const failedPaths = new Set(failed.map((failure) => failure.path));
+		records = records.filter((record) => !failedPaths.has(record.path));
+		records.sort((a, b) => a.path.localeCompare(b.path));
+		writeRecords(
+			format,
+			records,
+			["path", "from", "to", "frontMatter", "inline"],
+			() => {
+				let current = "";
+				for (const record of records) {
+					if (record.path !== current) {
+						current = record.path;
+						console.log(chalk.bold(record.path));
+					}
+					const places = [
+						record.frontMatter ? "front matter" : "",
+						record.inline > 0 ? `${record.inline} inline` : "",
+					].filter(Boolean);
+					const target = record.to
+						? chalk.green(`#${record.to}`)
+						: chalk.red("removed");
+					console.log(
+						`  #${record.from} → ${target} (${places.join(", ")})`,
+					);
+				}
+			},
+		);
 
-		await scanDir(basePath);
-		spinner.succeed("Tag added to files");
+		const { written } = await writeChanges(
+			index,
+			changes,
+			{ ...options, label },
+			failed,
+		);
+		if (written.length > 0) {
+			spinner.succeed(`Tags updated in ${written.length} files`);
+		}
 	} catch (error) {
-		spinner.fail("Failed to add tag");
+		spinner.fail("Failed to update tags");
 		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
+
+/** Notes matching a compiled query, reading content only for text terms. */
+const filterNotes = async (notes: Note[], query: CompiledQuery) => {
+	const matching: Note[] = [];
+	for (const note of notes) {
+		const content = query.needsContent
+			? await fs.readFile(path.join(vault.path, note.path), "utf-8")
+			: undefined;
+		if (query.matches(note, content)) {
+			matching.push(note);
+		}
+	}
+	return matching;
+};
+
+const queryNotes = async (source: string, format: OutputFormat = "text") => {
+	const spinner = ora("Querying notes...").start();
+	try {
+		const query = compileQuery(source);
+		const index = await vaultIndex();
+		const notes = await filterNotes(index.notes, query);
+		spinner.succeed(`${notes.length} notes match`);
+		const records = notes.map((note) => ({
+			path: note.path,
+			title: note.title,
+			tags: noteTags(note),
+		}));
+		writeRecords(format, records, ["path", "title", "tags"], () =>
+			console.log(records.map((record) => record.path).join("\n")),
+		);
+	} catch (error) {
+		spinner.fail("Failed to query notes");
+		console.error(
+			chalk.red("❌ Error:"),
+			error instanceof QuerySyntaxError ? error.message : error,
+		);
+		process.exitCode = 1;
+	}
+};
+
+type NoteTarget = {
+	/** Explicit note paths. */
+	files?: string[];
+	/** A subpath, or a glob such as `Projects/**`. */
+	path?: string;
+	/** A `query` expression the notes must match. */
+	where?: string;
+};
+
+/** Paths of the notes matching every given target, or all notes. */
+const selectNotes = async (index: VaultIndex, target: NoteTarget) => {
+	let notes = index.notes;
+	if (target.path && /[*?[]/.test(target.path)) {
+		const glob = ignore().add(target.path);
+		notes = notes.filter((note) =>
+			glob.ignores(note.path.split(path.sep).join("/")),
+		);
+	} else if (target.path) {
+		notes = notesIn(index, target.path);
+	}
+	if (target.where) {
+		notes = await filterNotes(notes, compileQuery(target.where));
+	}
+	const paths = notes.map((note) => note.path);
+	if (!target.files) {
+		return paths;
+	}
+	// Listed files are used as given, so a typo fails instead of being skipped
+	const files = target.files.map((file) => path.normalize(file));
+	return target.path || target.where
+		? files.filter((file) => paths.includes(file))
+		: files;
+};
+
+const getField = async (
+	field: string,
+	target: NoteTarget,
+	format: OutputFormat = "text",
+) => {
+	const spinner = ora(`Reading ${field}...`).start();
+	try {
+		const index = await vaultIndex();
+		const records: { path: string; value: unknown }[] = [];
+		for (const file of await selectNotes(index, target)) {
+			const content = await fs.readFile(path.join(vault.path, file), "utf-8");
+			const { data } = parseFrontMatter(content);
+			if (field in data) {
+				records.push({ path: file, value: data[field] });
+			}
+		}
+		spinner.succeed(`${records.length} notes have ${field}`);
+		writeRecords(format, records, ["path", "value"], () => {
+			for (const record of records) {
+				const value = Array.isArray(record.value)
+					? record.value.join(", ")
+					: String(record.value);
+				console.log(`${record.path} ${chalk.gray(value)}`);
+			}
+		});
+	} catch (error) {
+		spinner.fail(`Failed to read ${field}`);
+		console.error(
+			chalk.red("❌ Error:"),
+			error instanceof QuerySyntaxError ? error.message : error,
+		);
+		process.exitCode = 1;
+	}
+};
+
+/** Apply the same front matter edit to every targeted note. */
+const editFields = async (
+	label: string,
+	target: NoteTarget,
+	edit: (frontMatter: FrontMatterEditor) => void,
+	options: WriteOptions = {},
+) => {
+	const spinner = ora("Updating front matter...").start();
+	try {
+		const index = await vaultIndex();
+		const { changes, failed } = await collectChanges(
+			await selectNotes(index, target),
+			async (file) => {
+				const content = await fs.readFile(
+					path.join(vault.path, file),
+					"utf-8",
+				);
+				return {
+					path: file,
+					before: content,
+					after: editFrontMatter(content, edit),
+				};
+			},
+			options.failFast,
+		);
+		spinner.stop();
+		const { written } = await writeChanges(
+			index,
+			changes,
+			{ ...options, label },
+			failed,
+		);
+		if (written.length > 0) {
+			spinner.succeed(`Front matter updated in ${written.length} files`);
+		}
+	} catch (error) {
+		spinner.fail("Failed to update front matter");
+		console.error(
+			chalk.red("❌ Error:"),
+			error instanceof QuerySyntaxError || error instanceof FieldValueError
+				? error.message
+				: error,
+		);
+		process.exitCode = 1;
 	}
 };
 
-const searchContent = async (query: string) => {
+const runTable = async (source: string, format: OutputFormat = "text") => {
+	const spinner = ora("Running table query...").start();
+	try {
+		const query = parseTableQuery(source);
+		const index = await vaultIndex();
+		const { columns, rows } = await runTableQuery(index, query);
+		spinner.succeed(`${rows.length} rows`);
+		// The text output is the rendered table itself
+		writeRecords(format, rows, columns, () =>
+			writeRecords("table", rows, columns, () => {}),
+		);
+	} catch (error) {
+		spinner.fail("Failed to run table query");
+		console.error(
+			chalk.red("❌ Error:"),
+			error instanceof QuerySyntaxError ? error.message : error,
+		);
+		process.exitCode = 1;
+	}
+};
+
+/** Open a note in the vault's editor and wait for it to close. */
+const openInEditor = async (relPath: string) => {
+	const [editor, ...args] = (
+		vault.profile?.editor ||
+		process.env.EDITOR ||
+		"vim"
+	).split(/\s+/);
+	const child = spawn(editor, [...args, path.join(vault.path, relPath)], {
+		stdio: "inherit",
+	});
+	await new Promise((resolve, reject) => {
+		child.on("exit", resolve);
+		child.on("error", reject);
+	});
+};
+
+const searchContent = async (
+	query: string,
+	interactive = true,
+	format: OutputFormat = "text",
+	searchOptions: SearchOptions = {},
+) => {
 	const spinner = ora("Searching content...").start();
 	try {
-		const { execSync } = require("node:child_process");
 		const results: {
 			title: string;
 			path: string;
@@ -188,590 +867,1839 @@ const searchContent = async (query: string) => {
 			date: string;
 			lastmod: string;
 			filePath: string;
+			locations: SearchMatch[];
 		}[] = [];
 
-		const rgCommand = `rg -i -n "${query}" "${VAULT_PATH}" --glob "*.md"`;
-		const output = execSync(rgCommand, { encoding: "utf-8" });
-		for (const line of output.split("\n")) {
-			if (line) {
-				const [filePath, lineNumber, match] = line.split(":", 3);
-				const relPath = path.relative(VAULT_PATH, filePath);
-				const title = path.basename(relPath, ".md");
-				const existingResult = results.find((r) => r.path === relPath);
-				if (existingResult) {
-					existingResult.matches.push(match.trim());
-				} else {
-					const content = await fs.readFile(filePath, "utf-8");
-					const { attributes } = fm(content);
-					const tags = Array.isArray((attributes as { tags?: string[] }).tags)
-						? (attributes as { tags?: string[] }).tags
-						: [];
-					const date = (attributes as { date?: string }).date || "";
-					const lastmod = (attributes as { lastmod?: string }).lastmod || "";
-					results.push({
-						title,
-						path: relPath,
-						matches: [match.trim()],
-						tags,
-						date,
-						lastmod,
-						filePath, 
-					});
-				}
-			}
-		}
-
-		spinner.succeed("Search completed");
-
-		const displayResults = async () => {
-			console.clear();
-			console.log(chalk.bold("Search Results:"));
-
-			const displayOptions = [
-				{ name: "List view", value: "list" },
-				{ name: "Table view", value: "table" },
-			];
-
-			const { displayChoice } = await inquirer.prompt([
-				{
-					type: "list",
-					name: "displayChoice",
-					message: "Choose display format:",
-					choices: displayOptions,
-				},
-			]);
-
-			if (displayChoice === "table") {
-				const tableData = [
-					["Title", "Path", "Tags", "Date", "Last Modified"],
-					...results.map((result) => [
-						result.title,
-						result.path,
-						Array.isArray(result.tags) ? result.tags.join(", ") : "",
-						result.date ? new Date(result.date).toLocaleDateString() : "",
-						result.lastmod,
-					]),
-				];
-				console.log(table(tableData));
-				console.log("\nPress any key to return to menu...");
-				process.stdin.setRawMode(true);
-				process.stdin.resume();
-				process.stdin.setEncoding("utf8");
-				process.stdin.once("data", () => {
-					process.stdin.setRawMode(false);
-					process.stdin.pause();
-					displayResults();
-				});
-				return;
+		const index = await vaultIndex();
+		const found = await searchNotes(index, query, searchOptions);
+		for (const relPath of Array.from(found.keys()).sort()) {
+			const note = index.byPath.get(relPath);
+			const locations = found.get(relPath) || [];
+			if (!note) {
+				continue;
 			}
-
-			results.forEach((result, index) => {
-				console.log(
-					`${index + 1}. ${result.title} (${result.matches.length} matches)`,
-				);
-				console.log(`   Tags: ${result.tags?.join(", ") || "No tags"}`);
-				console.log(`   Date: ${result.date}`);
-				console.log(`   Last Modified: ${result.lastmod}`);
-			});
-
-			console.log(
-				"\nNavigate with arrow keys, press Enter to select, or type a number and press Enter.",
+			// Read the dates as written, not as the Date objects of the index
+			const { data } = parseFrontMatter(
+				await fs.readFile(path.join(vault.path, relPath), "utf-8"),
 			);
-			console.log("Press 'q' to quit, 'm' to return to main menu.");
-
-			const rl = readline.createInterface({
-				input: process.stdin,
-				output: process.stdout,
+			results.push({
+				title: note.title,
+				path: relPath,
+				matches: locations.map((location) => location.text.trim()),
+				tags: note.tags,
+				date: data.date == null ? "" : String(data.date),
+				lastmod: data.lastmod == null ? "" : String(data.lastmod),
+				filePath: path.join(vault.path, relPath),
+				locations,
 			});
+		}
 
-			let selectedIndex = 0;
-
-			const renderCursor = () => {
-				process.stdout.write("\x1B[1;1H\x1B[J");
-				console.log(chalk.bold("Search Results:"));
+		spinner.succeed("Search completed");
 
-				results.forEach((result, index) => {
-					if (index === selectedIndex) {
-						console.log(
-							chalk.cyan(
-								`> ${index + 1}. ${result.title} (${result.matches.length} matches)`,
-							),
-						);
+		if (!interactive) {
+			const records = results.map(({ filePath, ...record }) => record);
+			writeRecords(
+				format,
+				records,
+				["title", "path", "matches", "tags", "date", "lastmod"],
+				() => {
+					for (const result of results) {
 						console.log(
-							chalk.cyan(`   Tags: ${result.tags?.join(", ") || "No tags"}`),
+							chalk.bold(`${result.path} (${result.matches.length} matches)`),
 						);
-						console.log(chalk.cyan(`   Date: ${result.date}`));
-						console.log(chalk.cyan(`   Last Modified: ${result.lastmod}`));
-					} else {
-						console.log(
-							`  ${index + 1}. ${result.title} (${result.matches.length} matches)`,
-						);
-						console.log(`   Tags: ${result.tags?.join(", ") || "No tags"}`);
-						console.log(`   Date: ${result.date}`);
-						console.log(`   Last Modified: ${result.lastmod}`);
-					}
-				});
-
-				console.log(
-					"\nNavigate with arrow keys, press Enter to select, or type a number and press Enter.",
-				);
-				console.log("Press 'q' to quit, 'm' to return to main menu.");
-			};
-
-			renderCursor();
-
-			process.stdin.setRawMode(true);
-			process.stdin.resume();
-			process.stdin.setEncoding("utf8");
-			return new Promise((resolve) => {
-				let inputBuffer = "";
-				const handleKeyPress = async (key: Buffer) => {
-					try {
-						const keyStr = key.toString();
-						if (keyStr === "\u001B[A" && selectedIndex > 0) {
-							// Up arrow
-							selectedIndex--;
-							renderCursor();
-						} else if (
-							keyStr === "\u001B[B" &&
-							selectedIndex < results.length - 1
-						) {
-							// Down arrow
-							selectedIndex++;
-							renderCursor();
-						} else if (keyStr === "\r") {
-							// Enter
-							if (inputBuffer) {
-								const index = Number.parseInt(inputBuffer) - 1;
-								if (index >= 0 && index < results.length) {
-									selectedIndex = index;
-								}
-								inputBuffer = "";
+						for (const location of result.locations) {
+							for (const line of location.before) {
+								console.log(chalk.gray(`   ${line}`));
 							}
-							process.stdin.removeListener("data", handleKeyPress);
-							process.stdin.setRawMode(false);
-							process.stdin.pause();
-							rl.close();
-							await handleSelectedResult(results[selectedIndex]);
-							await displayResults(); 
-						} else if (keyStr === "q") {
-							process.exit(0);
-						} else if (keyStr === "m") {
-							process.stdin.removeListener("data", handleKeyPress);
-							process.stdin.setRawMode(false);
-							process.stdin.pause();
-							rl.close();
-							resolve(null);
-						} else if (keyStr >= "0" && keyStr <= "9") {
-							inputBuffer += keyStr;
-							const index = Number.parseInt(inputBuffer) - 1;
-							if (index >= 0 && index < results.length) {
-								selectedIndex = index;
-								renderCursor();
+							console.log(
+								`${chalk.cyan(`${location.line}:${location.column}`)} ${highlightMatch(location)}`,
+							);
+							for (const line of location.after) {
+								console.log(chalk.gray(`   ${line}`));
 							}
-						} else {
-							inputBuffer = "";
 						}
-					} catch (error) {
-						console.error("An error occurred:", error);
-						process.stdin.removeListener("data", handleKeyPress);
-						process.stdin.setRawMode(false);
-						process.stdin.pause();
-						rl.close();
-						resolve(null);
 					}
-				};
-
-				process.stdin.on("data", handleKeyPress);
-			});
-		};
-
-		const handleSelectedResult = async (
-			selectedResult: (typeof results)[0],
-		) => {
-			console.clear();
-			console.log(chalk.bold(`\nFile: ${selectedResult.title}`));
-			console.log(chalk.gray(`Path: ${selectedResult.path}`));
-			console.log(chalk.yellow("\nMatches:"));
-			selectedResult.matches.forEach((match, index) => {
-				console.log(chalk.green(`  ${index + 1}. ${match}`));
-			});
-
-			const displayMenu = () => {
-				console.log("\nOptions:");
-				console.log("o: Open in editor");
-				console.log("p: Preview content");
-				console.log("r: Return to results");
-				console.log("m: Return to main menu");
-				console.log("Press any key to show menu");
-			};
+				},
+			);
+			return;
+		}
 
-			displayMenu();
-
-			return new Promise<void>((resolve) => {
-				const handleKeyPress = (key: Buffer) => {
-					const keyStr = key.toString();
-					console.clear();
-					console.log(chalk.bold(`\nFile: ${selectedResult.title}`));
-					console.log(chalk.gray(`Path: ${selectedResult.path}`));
-					console.log(chalk.yellow("\nMatches:"));
-					selectedResult.matches.forEach((match, index) => {
-						console.log(chalk.green(`  ${index + 1}. ${match}`));
-					});
-
-					switch (keyStr.toLowerCase()) {
-						case "o":
-							process.stdin.removeListener("data", handleKeyPress);
-							process.stdin.setRawMode(false);
-							process.stdin.pause();
-							openInEditor(selectedResult.path).then(resolve);
-							break;
-						case "p":
-							process.stdin.removeListener("data", handleKeyPress);
-							process.stdin.setRawMode(false);
-							process.stdin.pause();
-							previewContent(selectedResult.path).then(() => {
-								console.log("\nPress any key to return to menu...");
-								process.stdin.setRawMode(true);
-								process.stdin.resume();
-								process.stdin.setEncoding("utf8");
-								process.stdin.once("data", () => {
-									console.clear();
-									process.stdin.setRawMode(true);
-									process.stdin.resume();
-									process.stdin.setEncoding("utf8");
-									process.stdin.on("data", handleKeyPress);
-									displayMenu();
-								});
-							});
-							break;
-						case "r":
-							process.stdin.removeListener("data", handleKeyPress);
-							process.stdin.setRawMode(false);
-							process.stdin.pause();
-							resolve();
-							break;
-						case "m":
-							process.stdin.removeListener("data", handleKeyPress);
-							process.stdin.setRawMode(false);
-							process.stdin.pause();
-							resolve();
-							break;
-						case "\u0003": // Ctrl+C
-							process.exit();
-							break;
-						default:
-							displayMenu();
-							break;
-					}
-				};
+		if (results.length === 0) {
+			console.log("No matches");
+			return;
+		}
 
-				process.stdin.setRawMode(true);
-				process.stdin.resume();
-				process.stdin.setEncoding("utf8");
-				process.stdin.on("data", handleKeyPress);
-			});
+		const contents = new Map<string, string>();
+		const readContent = async (relPath: string) => {
+			const content =
+				contents.get(relPath) ??
+				(await fs.readFile(path.join(vault.path, relPath), "utf-8"));
+			contents.set(relPath, content);
+			return content;
 		};
-
-		const openInEditor = async (filePath: string) => {
-			const editor = process.env.EDITOR || "vim";
-			const fullPath = path.join(VAULT_PATH, filePath);
-			const child = spawn(editor, [fullPath], {
-				stdio: "inherit",
-			});
-			await new Promise((resolve) => {
-				child.on("exit", resolve);
-			});
-			const selectedResult = results.find((r) => r.path === filePath);
-			if (selectedResult) {
-				await handleSelectedResult(selectedResult);
-			} else {
-				console.log(
-					"File not found in search results. Returning to main menu.",
+		let graph: LinkGraph | undefined;
+
+		await runPicker<(typeof results)[number]>({
+			title: `Search: ${query}`,
+			items: results,
+			label: (result) => result.path,
+			hint: (result) => String(result.locations.length),
+			preview: async (result) => {
+				const lines = (await readContent(result.path)).split(/\r?\n/);
+				const matches = new Map(
+					result.locations.map((location) => [location.line, location]),
 				);
-				await mainMenu();
-			}
-		};
-
-		const previewContent = async (filePath: string) => {
-			const fullPath = path.join(VAULT_PATH, filePath);
-			try {
-				const content = await fs.readFile(fullPath, "utf-8");
-
-				const processObsidianSyntax = (text: string) => {
-					// Style wiki links [[...]]
-					return (
-						text
-							.replace(/\[\[(.*?)\]\]/g, (_, p1) => {
-								const [link, alias] = p1.split("|");
-								return `[${alias || link}](${link})`;
-							})
-							// Style tags #tag
-							.replace(/(?<!\S)#([a-zA-Z0-9_-]+)/g, "`#$1`")
-							// Style front matter
-							.replace(
-								/^---\n([\s\S]*?)\n---/,
-								(match) => `\`\`\`yaml\n${match.slice(4, -4)}\n\`\`\``,
-							)
-					);
-				};
-
-				const TerminalRenderer = markedTerminal;
-				const renderer = new TerminalRenderer({
-					code: chalk.cyan, 
-					blockquote: chalk.gray.italic,
-					html: chalk.gray,
-					heading: chalk.green.bold,
-					firstHeading: chalk.magenta.underline.bold,
-					hr: chalk.reset,
-					listitem: chalk.reset,
-					table: chalk.reset,
-					paragraph: chalk.reset,
-					strong: chalk.bold,
-					em: chalk.italic,
-					codespan: chalk.cyan,
-					del: chalk.dim.gray.strikethrough,
-					link: chalk.blue,
-					href: chalk.blue.underline, 
-					width: process.stdout.columns,
-					reflowText: true,
-
-					showSectionPrefix: true,
-					unescape: true,
-					emoji: true,
-
-					tab: 2,
-				});
-
-				const options = {
-					renderer: renderer as unknown as typeof marked.Renderer,
+				return {
+					title: [
+						result.title,
+						...(result.tags || []).map((tag) => chalk.magenta(`#${tag}`)),
+					].join(" "),
+					lines: lines.map((text, i) => {
+						const match = matches.get(i + 1);
+						const number = String(i + 1).padStart(4);
+						return match
+							? `${chalk.cyan(number)} ${highlightMatch(match)}`
+							: `${chalk.gray(number)} ${text}`;
+					}),
+					focus: (result.locations[0]?.line || 1) - 1,
 				};
-
-				marked.setOptions(options);
-				console.clear();
-				console.log(`\n${chalk.bold.underline("File Preview:")}\n`);
-				console.log(marked(processObsidianSyntax(content)));
-				console.log("\n");
-
-				console.log("Press any key to return...");
-				process.stdin.setRawMode(true);
-				process.stdin.resume();
-				process.stdin.once("data", () => {
-					process.stdin.setRawMode(false);
-					process.stdin.pause();
-				});
-			} catch (error) {
-				console.error(chalk.red("Error reading file:"), error);
-				console.log("Press any key to return to main menu...");
-				process.stdin.setRawMode(true);
-				process.stdin.resume();
-				process.stdin.once("data", () => {
-					process.stdin.setRawMode(false);
-					process.stdin.pause();
-					mainMenu();
-				});
-			}
-		};
-
-		await displayResults();
+			},
+			actions: [
+				{
+					key: "return",
+					help: "enter open",
+					run: async (result, screen) => {
+						await screen.suspend(() => openInEditor(result.path));
+						contents.delete(result.path);
+						screen.refresh();
+					},
+				},
+				{
+					key: "ctrl+p",
+					help: "^p preview",
+					run: async (result, screen) => {
+						screen.showPane({
+							title: result.path,
+							lines: (await renderNote(index, result.path)).split("\n"),
+							wide: true,
+						});
+					},
+				},
+				{
+					key: "ctrl+b",
+					help: "^b backlinks",
+					run: async (result, screen) => {
+						graph ??= buildLinkGraph(index);
+						const links = (graph.incoming.get(result.path) || []).filter(
+							(link) => link.source !== result.path,
+						);
+						const contexts = await linkContexts(links);
+						screen.showPane({
+							title: `${links.length} backlinks to ${result.path}`,
+							lines: links.map(
+								(link, i) =>
+									`${link.source}:${link.line}  ${chalk.gray(contexts[i].trim())}`,
+							),
+						});
+					},
+				},
+				{
+					key: "ctrl+y",
+					help: "^y copy path",
+					run: (result, screen) => {
+						copyToClipboard(result.path);
+						screen.status(`Copied ${result.path}`);
+					},
+				},
+				{
+					key: "ctrl+f",
+					help: "^f query",
+					run: async (_result, screen) => {
+						const expression = await screen.prompt(
+							"Query (e.g. tag:project status=active, empty for all): ",
+						);
+						if (expression === undefined) {
+							return;
+						}
+						if (!expression.trim()) {
+							screen.setItems(results);
+							return;
+						}
+						try {
+							const notes = await filterNotes(
+								results.flatMap((result) => index.byPath.get(result.path) || []),
+								compileQuery(expression),
+							);
+							const kept = new Set(notes.map((note) => note.path));
+							screen.setItems(results.filter((result) => kept.has(result.path)));
+						} catch (error) {
+							if (!(error instanceof QuerySyntaxError)) {
+								throw error;
+							}
+							screen.status(error.message);
+						}
+					},
+				},
+			],
+		});
 	} catch (error) {
 		spinner.fail("Failed to search content");
+		console.error(
+			chalk.red("❌ Error:"),
+			error instanceof SearchPatternError ? error.message : error,
+		);
+		process.exitCode = 1;
+	}
+};
+
+/** Resolve a note argument (a path or a link) or throw. */
+const findNote = (graph: LinkGraph, index: VaultIndex, note: string) => {
+	const resolved = graph.resolve(note, "");
+	if (!resolved || !index.byPath.has(resolved)) {
+		throw new Error(`Note not found: ${note}`);
+	}
+	return resolved;
+};
+
+/** The full line of each link, read once per linking note. */
+const linkContexts = async (links: ResolvedLink[]) => {
+	const lines = new Map<string, string[]>();
+	for (const link of links) {
+		if (!lines.has(link.source)) {
+			const { content } = await readNote(vault.path, link.source);
+			lines.set(link.source, content.split(/\r?\n/));
+		}
+	}
+	return links.map((link) => lines.get(link.source)?.[link.line - 1] || "");
+};
+
+const previewNote = async (note: string, options: RenderOptions) => {
+	const spinner = ora("Rendering note...").start();
+	try {
+		const index = await vaultIndex();
+		const target = findNote(buildLinkGraph(index), index, note);
+		const rendered = await renderNote(index, target, options);
+		spinner.stop();
+		process.stdout.write(rendered);
+	} catch (error) {
+		spinner.fail("Failed to render note");
 		console.error(chalk.red("❌ Error:"), error);
-		console.log("Press any key to return to main menu...");
-		process.stdin.setRawMode(true);
-		process.stdin.resume();
-		process.stdin.once("data", () => {
-			process.stdin.setRawMode(false);
-			process.stdin.pause();
-			mainMenu();
-		});
+		process.exitCode = 1;
 	}
 };
 
-const listBacklinks = async (filePath: string) => {
+const listBacklinks = async (filePath: string, format: OutputFormat = "text") => {
 	const spinner = ora("Finding backlinks...").start();
 	try {
-		const backlinks: { path: string; context: string }[] = [];
-
-		const scanDir = async (dir: string) => {
-			const entries = await fs.readdir(dir, { withFileTypes: true });
-			for (const entry of entries) {
-				const fullPath = path.join(dir, entry.name);
-				const relPath = path.relative(VAULT_PATH, fullPath);
-
-				if (entry.isDirectory()) {
-					await scanDir(fullPath);
-				} else if (entry.name.endsWith(".md")) {
-					const content = await fs.readFile(fullPath, "utf-8");
-					const links = parseObsidianLinks(content);
-					if (links.includes(path.basename(filePath, ".md"))) {
-						const context =
-							content
-								.split("\n")
-								.find((line) =>
-									line.includes(`[[${path.basename(filePath, ".md")}]]`),
-								) || "";
-						backlinks.push({ path: relPath, context });
-					}
-				}
+		const index = await vaultIndex();
+		const graph = buildLinkGraph(index);
+		const target = findNote(graph, index, filePath);
+		const links = (graph.incoming.get(target) || []).filter(
+			(link) => link.source !== target,
+		);
+		const contexts = await linkContexts(links);
+		const backlinks = links.map((link, i) => ({
+			path: link.source,
+			line: link.line,
+			link: link.original,
+			context: contexts[i],
+		}));
+
+		spinner.succeed(`${backlinks.length} backlinks to ${target}`);
+		writeRecords(format, backlinks, ["path", "line", "link", "context"], () => {
+			for (const backlink of backlinks) {
+				console.log(
+					`${backlink.path}:${backlink.line}  ${chalk.gray(backlink.context.trim())}`,
+				);
 			}
-		};
-
-		await scanDir(VAULT_PATH);
-		spinner.succeed("Backlinks found");
-		console.log(JSON.stringify(backlinks, null, 2));
+		});
 	} catch (error) {
 		spinner.fail("Failed to find backlinks");
 		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
 	}
 };
 
-const mainMenu = async () => {
-	const { action } = await inquirer.prompt([
-		{
-			type: "list",
-			name: "action",
-			message: "What would you like to do?",
-			choices: [
-				{ name: "List all markdown files", value: "list" },
-				{ name: "Update tags for multiple files", value: "update-tags" },
-				{ name: "Get all unique tags across files", value: "tags" },
-				{
-					name: "Add a tag to all files in a specific subpath",
-					value: "add-tag",
-				},
-				{ name: "Search content across files", value: "search" },
-				{ name: "List backlinks for a file", value: "backlinks" },
-				{ name: "Exit", value: "exit" },
-			],
-		},
-	]);
+const listOutgoingLinks = async (
+	filePath: string,
+	format: OutputFormat = "text",
+) => {
+	const spinner = ora("Finding links...").start();
+	try {
+		const index = await vaultIndex();
+		const graph = buildLinkGraph(index);
+		const source = findNote(graph, index, filePath);
+		const records = (graph.outgoing.get(source) || []).map((link) => ({
+			line: link.line,
+			link: link.original,
+			target: link.target,
+			subpath: link.subpath || "",
+			embed: link.embed,
+			resolved: link.resolved || "",
+		}));
+
+		spinner.succeed(`${records.length} links in ${source}`);
+		writeRecords(
+			format,
+			records,
+			["line", "link", "target", "subpath", "embed", "resolved"],
+			() => {
+				for (const record of records) {
+					console.log(
+						`${record.line}: ${record.link} → ${
+							record.resolved || chalk.red("unresolved")
+						}`,
+					);
+				}
+			},
+		);
+	} catch (error) {
+		spinner.fail("Failed to find links");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
 
-	switch (action) {
-		case "list":
-			await listFiles();
-			break;
-		case "update-tags":
+const listUnresolvedLinks = async (format: OutputFormat = "text") => {
+	const spinner = ora("Finding unresolved links...").start();
+	try {
+		const graph = buildLinkGraph(await vaultIndex());
+		const records = graph.unresolved.map((link) => ({
+			path: link.source,
+			line: link.line,
+			link: link.original,
+			target: link.target,
+		}));
+
+		spinner.succeed(`${records.length} unresolved links`);
+		writeRecords(format, records, ["path", "line", "link", "target"], () => {
+			for (const record of records) {
+				console.log(`${record.path}:${record.line}  ${record.link}`);
+			}
+		});
+	} catch (error) {
+		spinner.fail("Failed to find unresolved links");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
+
+const listOrphans = async (format: OutputFormat = "text") => {
+	const spinner = ora("Finding orphan notes...").start();
+	try {
+		const index = await vaultIndex();
+		const orphans = findOrphans(buildLinkGraph(index), index.notes);
+		const records = orphans.map((note) => ({
+			path: note.path,
+			title: note.title,
+		}));
+
+		spinner.succeed(`${records.length} orphan notes`);
+		writeRecords(format, records, ["path", "title"], () => {
+			console.log(records.map((record) => record.path).join("\n"));
+		});
+	} catch (error) {
+		spinner.fail("Failed to find orphan notes");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
+
+const showLinkStats = async (format: OutputFormat = "text") => {
+	const spinner = ora("Counting links...").start();
+	try {
+		const index = await vaultIndex();
+		const graph = buildLinkGraph(index);
+		const links = Array.from(graph.outgoing.values()).flat();
+		const mostLinked = Array.from(graph.incoming.entries())
+			.map(([target, incoming]) => ({
+				target,
+				count: new Set(
+					incoming
+						.map((link) => link.source)
+						.filter((source) => source !== target),
+				).size,
+			}))
+			.filter(({ count }) => count > 0)
+			.sort((a, b) => b.count - a.count || a.target.localeCompare(b.target))
+			.slice(0, 10);
+		const records = [
+			{ metric: "notes", value: index.notes.length },
+			{ metric: "links", value: links.length },
 			{
-				const updateAnswers = await inquirer.prompt([
-					{
-						type: "input",
-						name: "files",
-						message: "Enter file paths (comma-separated):",
-						filter: (input: string) =>
-							input.split(",").map((file) => file.trim()),
-					},
-					{
-						type: "input",
-						name: "tags",
-						message: "Enter tags to set (comma-separated):",
-						filter: (input: string) =>
-							input.split(",").map((tag) => tag.trim()),
-					},
-					{
-						type: "confirm",
-						name: "replace",
-						message: "Replace existing tags instead of appending?",
-						default: false,
-					},
-				]);
-				if (updateAnswers.replace) {
+				metric: "wiki links",
+				value: links.filter((link) => link.kind === "wiki").length,
+			},
+			{
+				metric: "markdown links",
+				value: links.filter((link) => link.kind === "markdown").length,
+			},
+			{ metric: "embeds", value: links.filter((link) => link.embed).length },
+			{ metric: "unresolved", value: graph.unresolved.length },
+			{
+				metric: "orphans",
+				value: findOrphans(graph, index.notes).length,
+			},
+		];
+
+		spinner.succeed("Links counted");
+		writeRecords(format, records, ["metric", "value"], () => {
+			for (const record of records) {
+				console.log(`${record.metric.padEnd(15)} ${record.value}`);
+			}
+			if (mostLinked.length > 0) {
+				console.log(chalk.bold("\nMost linked:"));
+				for (const { target, count } of mostLinked) {
+					console.log(`${String(count).padStart(5)}  ${target}`);
+				}
+			}
+		});
+	} catch (error) {
+		spinner.fail("Failed to count links");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
+
+const lintNotes = async (
+	fix: boolean,
+	options: WriteOptions = {},
+	format: OutputFormat = "text",
+) => {
+	const spinner = ora("Linting front matter...").start();
+	try {
+		const schema = await loadSchema(vault.path);
+		if (!schema) {
+			spinner.warn(
+				`No schema found at ${path.relative(vault.path, schemaPath(vault.path))}`,
+			);
+			return;
+		}
+		const index = await vaultIndex();
+		let violations: Violation[] = [];
+		const changes: FileChange[] = [];
+		for (const note of index.notes) {
+			const content = await fs.readFile(
+				path.join(vault.path, note.path),
+				"utf-8",
+			);
+			const found = lintNote(schema, note.path, content);
+			const fixable = fix ? found.filter((violation) => violation.fix) : [];
+			if (fixable.length > 0) {
+				changes.push({
+					path: note.path,
+					before: content,
+					after: editFrontMatter(content, (frontMatter) => {
+						for (const violation of fixable) {
+							frontMatter.set(violation.field, violation.fix?.value);
+						}
+					}),
+				});
+			}
+			violations.push(...found);
+		}
+		spinner.stop();
+
+		if (changes.length > 0) {
+			const { written } = await writeChanges(index, changes, {
+				...options,
+				label: "lint --fix",
+			});
+			const fixed = new Set(written.map((change) => change.path));
+			violations = violations.filter(
+				(violation) => !(violation.fix && fixed.has(violation.path)),
+			);
+			if (written.length > 0) {
+				spinner.succeed(`Fixed ${written.length} files`);
+			}
+		}
+
+		const records = violations.map((violation) => ({
+			path: violation.path,
+			line: violation.line,
+			field: violation.field,
+			message: violation.message,
+			fixable: !!violation.fix,
+		}));
+		writeRecords(
+			format,
+			records,
+			["path", "line", "field", "message", "fixable"],
+			() => {
+				for (const record of records) {
 					console.log(
-						chalk.yellow("⚠️  Warning: Existing tags will be replaced!"),
+						`${record.path}:${record.line}  ${chalk.red(
+							record.field ? `${record.field} ${record.message}` : record.message,
+						)}${record.fixable ? chalk.gray(" (fixable)") : ""}`,
 					);
 				}
-				await updateTags(
-					updateAnswers.files,
-					updateAnswers.tags,
-					updateAnswers.replace,
+			},
+		);
+		if (records.length > 0) {
+			const fixable = records.filter((record) => record.fixable).length;
+			spinner.fail(
+				`${records.length} problems${
+					fixable > 0 && !fix ? `, ${fixable} fixable with --fix` : ""
+				}`,
+			);
+			process.exitCode = 1;
+		} else {
+			spinner.succeed("No problems found");
+		}
+	} catch (error) {
+		spinner.fail("Failed to lint notes");
+		console.error(
+			chalk.red("❌ Error:"),
+			error instanceof SchemaError ? error.message : error,
+		);
+		process.exitCode = 1;
+	}
+};
+
+const syncDates = async (
+	sync: DateSyncOptions,
+	options: WriteOptions = {},
+	format: OutputFormat = "text",
+) => {
+	const spinner = ora("Reading dates...").start();
+	try {
+		const index = await vaultIndex();
+		const schema = await loadSchema(vault.path);
+		const { changes, updates, failed } = await planDateSync(
+			index,
+			sync,
+			schema,
+			options.failFast,
+		);
+		spinner.stop();
+		// Keep the modification times so the write itself doesn't count as an edit
+		const mtimes = new Map(
+			changes.map((change) => [
+				change.path,
+				index.byPath.get(change.path)?.mtimeMs ?? Date.now(),
+			]),
+		);
+		const { written } = await writeChanges(
+			index,
+			changes,
+			{ ...options, label: "dates sync" },
+			failed,
+		);
+		// Only what was written, or would be on a dry run
+		const writtenPaths = new Set(written.map((change) => change.path));
+		const applied = options.dryRun
+			? updates
+			: updates.filter((update) => writtenPaths.has(update.path));
+		writeRecords(format, applied, ["path", "field", "from", "to"], () => {
+			let current = "";
+			for (const update of applied) {
+				if (update.path !== current) {
+					current = update.path;
+					console.log(chalk.bold(update.path));
+				}
+				console.log(
+					`  ${update.field}: ${chalk.gray(update.from ?? "(missing)")} → ${chalk.green(update.to)}`,
 				);
 			}
-			break;
-		case "tags":
-			{
-				const tagsAnswer = await inquirer.prompt([
-					{
-						type: "input",
-						name: "path",
-						message: "Enter subpath within the vault (optional):",
-						default: "",
-					},
-				]);
-				await getAllTags(tagsAnswer.path);
-			}
-			break;
-		case "add-tag":
-			{
-				const addTagAnswers = await inquirer.prompt([
-					{
-						type: "input",
-						name: "path",
-						message: "Enter subpath within the vault:",
-						validate: (input: string) =>
-							input.length > 0 || "Subpath is required",
-					},
-					{
-						type: "input",
-						name: "tag",
-						message: "Enter tag to add:",
-						validate: (input: string) => input.length > 0 || "Tag is required",
-					},
-					{
-						type: "confirm",
-						name: "replace",
-						message: "Replace existing tags instead of appending?",
-						default: false,
-					},
-				]);
-				if (addTagAnswers.replace) {
+		});
+		for (const change of written) {
+			const mtime = new Date(mtimes.get(change.path) ?? Date.now());
+			await fs.utimes(path.join(vault.path, change.path), new Date(), mtime);
+			await reindexNote(index, change.path);
+		}
+		if (written.length > 0) {
+			await saveVaultIndex(index);
+			spinner.succeed(`Dates updated in ${written.length} files`);
+		} else if (changes.length === 0 && failed.length === 0) {
+			spinner.succeed("Dates are up to date");
+		}
+	} catch (error) {
+		spinner.fail("Failed to sync dates");
+		console.error(
+			chalk.red("❌ Error:"),
+			error instanceof SchemaError ? error.message : error,
+		);
+		process.exitCode = 1;
+	}
+};
+
+type TaskFilter = {
+	path: string;
+	status?: TaskStatus;
+	due?: (task: Task) => boolean;
+	tag?: string;
+};
+
+const TASK_ICONS: Record<TaskStatus, string> = {
+	todo: "☐",
+	"in-progress": chalk.yellow("◐"),
+	done: chalk.green("☑"),
+	cancelled: chalk.gray("☒"),
+};
+
+const listTasks = async (filter: TaskFilter, format: OutputFormat = "text") => {
+	const spinner = ora("Collecting tasks...").start();
+	try {
+		const index = await vaultIndex();
+		const today = formatDate(new Date(), "YYYY-MM-DD");
+		const tag = filter.tag?.toLowerCase();
+		const records = notesIn(index, filter.path)
+			.flatMap((note) => note.tasks.map((task) => ({ path: note.path, ...task })))
+			.filter(
+				(task) =>
+					(!filter.status || task.status === filter.status) &&
+					(!filter.due || filter.due(task)) &&
+					(!tag ||
+						task.tags.some((candidate) => {
+							const lower = candidate.toLowerCase();
+							return lower === tag || lower.startsWith(`${tag}/`);
+						})),
+			)
+			.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line);
+
+		spinner.succeed(`${records.length} tasks`);
+		writeRecords(
+			format,
+			records,
+			[
+				"path",
+				"line",
+				"status",
+				"text",
+				"heading",
+				"tags",
+				"due",
+				"scheduled",
+				"start",
+				"created",
+				"done",
+				"priority",
+				"recurrence",
+			],
+			() => {
+				let currentPath = "";
+				let currentHeading: string | undefined;
+				for (const task of records) {
+					if (task.path !== currentPath) {
+						currentPath = task.path;
+						currentHeading = undefined;
+						console.log(chalk.bold(task.path));
+					}
+					if (task.heading && task.heading !== currentHeading) {
+						currentHeading = task.heading;
+						console.log(chalk.gray(`  ${task.heading}`));
+					}
+					const open = task.status === "todo" || task.status === "in-progress";
+					const due =
+						task.due === undefined
+							? ""
+							: open && task.due < today
+								? chalk.red(` 📅 ${task.due}`)
+								: open && task.due === today
+									? chalk.yellow(` 📅 ${task.due}`)
+									: chalk.gray(` 📅 ${task.due}`);
+					console.log(
+						[
+							`${chalk.gray(String(task.line).padStart(6))} ${TASK_ICONS[task.status]} `,
+							open ? task.text : chalk.gray(task.text),
+							due,
+							task.priority ? chalk.yellow(` ${task.priority}`) : "",
+							task.recurrence ? chalk.gray(` 🔁 ${task.recurrence}`) : "",
+						].join(""),
+					);
+				}
+			},
+		);
+	} catch (error) {
+		spinner.fail("Failed to collect tasks");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
+
+const toggleTasks = async (
+	refs: string[],
+	options: WriteOptions & { doneDate?: boolean } = {},
+) => {
+	const spinner = ora("Toggling tasks...").start();
+	try {
+		const index = await vaultIndex();
+		const graph = buildLinkGraph(index);
+		const lines = new Map<string, Set<number>>();
+		for (const ref of refs) {
+			const { note, line } = parseTaskRef(ref);
+			const file = findNote(graph, index, note);
+			lines.set(file, new Set([...(lines.get(file) || []), line]));
+		}
+		const doneDate =
+			options.doneDate === false
+				? undefined
+				: formatDate(new Date(), "YYYY-MM-DD");
+		const { changes, failed } = await collectChanges(
+			[...lines.keys()],
+			async (file) => {
+				const before = await fs.readFile(path.join(vault.path, file), "utf-8");
+				let after = before;
+				for (const line of lines.get(file) || []) {
+					after = toggleTask(after, line, doneDate);
+				}
+				return { path: file, before, after };
+			},
+			options.failFast,
+		);
+		spinner.stop();
+		const { written } = await writeChanges(
+			index,
+			changes,
+			{ ...options, label: "tasks done" },
+			failed,
+		);
+		if (written.length > 0) {
+			spinner.succeed(`Tasks toggled in ${written.length} files`);
+		}
+	} catch (error) {
+		spinner.fail("Failed to toggle tasks");
+		console.error(
+			chalk.red("❌ Error:"),
+			error instanceof TaskError ? error.message : error,
+		);
+		process.exitCode = 1;
+	}
+};
+
+const WATCH_COLORS: Record<WatchEvent["type"], (text: string) => string> = {
+	added: chalk.green,
+	changed: chalk.blue,
+	deleted: chalk.red,
+	updated: chalk.cyan,
+	invalid: chalk.yellow,
+	error: chalk.red,
+};
+
+const runWatch = async (
+	rules: Omit<WatchRules, "schema"> & { lint: boolean },
+	debounceMs: number,
+	format: "text" | "json" | "ndjson" = "text",
+) => {
+	const spinner = ora("Indexing vault...").start();
+	let watcher: VaultWatcher;
+	try {
+		const index = await vaultIndex();
+		const schema = rules.lint ? await loadSchema(vault.path) : undefined;
+		if (rules.lint && !schema) {
+			spinner.warn(
+				`No schema found at ${path.relative(vault.path, schemaPath(vault.path))}, not linting`,
+			);
+			spinner.start();
+		}
+		watcher = watchVault(index, {
+			rules: { lastmod: rules.lastmod, folderTags: rules.folderTags, schema },
+			debounceMs,
+			onEvent: (event) => {
+				if (format === "json" || format === "ndjson") {
+					// A stream of events, so one JSON object per line
+					console.log(JSON.stringify(event));
+					return;
+				}
+				const time = event.time.toTimeString().slice(0, 8);
+				console.log(
+					`${chalk.gray(time)} ${WATCH_COLORS[event.type](event.type.padEnd(7))} ${event.path}${
+						event.detail ? chalk.gray(`  ${event.detail}`) : ""
+					}`,
+				);
+			},
+		});
+		spinner.succeed(
+			`Watching ${index.notes.length} notes in ${vault.path} (Ctrl+C to stop)`,
+		);
+	} catch (error) {
+		spinner.fail("Failed to watch vault");
+		console.error(
+			chalk.red("❌ Error:"),
+			error instanceof SchemaError ? error.message : error,
+		);
+		process.exitCode = 1;
+		return;
+	}
+
+	await new Promise<void>((resolve) => {
+		process.once("SIGINT", resolve);
+		process.once("SIGTERM", resolve);
+	});
+	await watcher.close();
+	console.error(chalk.gray("Stopped watching"));
+};
+
+const DOCTOR_LABELS: Record<DoctorCheck, string> = {
+	"invalid-front-matter": "Invalid front matter",
+	"broken-link": "Broken links",
+	"broken-embed": "Broken embeds",
+	"missing-attachment": "Missing attachments",
+	"duplicate-title": "Duplicate titles",
+	"empty-note": "Empty notes",
+	"stale-note": "Stale notes",
+};
+
+const runDoctor = async (staleDays: number, format: OutputFormat = "text") => {
+	const spinner = ora("Checking vault health...").start();
+	try {
+		const index = await vaultIndex();
+		const issues = await diagnoseVault(index, { staleDays });
+		spinner.succeed(`Checked ${index.notes.length} notes`);
+		writeRecords(format, issues, ["check", "path", "line", "detail"], () => {
+			for (const check of DOCTOR_CHECKS) {
+				const found = issues.filter((issue) => issue.check === check);
+				if (found.length === 0) {
+					continue;
+				}
+				console.log(chalk.bold(`\n${DOCTOR_LABELS[check]} (${found.length})`));
+				for (const issue of found) {
 					console.log(
-						chalk.yellow("⚠️  Warning: Existing tags will be replaced!"),
+						`  ${issue.path}:${issue.line}  ${chalk.gray(issue.detail)}`,
 					);
 				}
-				await addTagToSubpath(
-					addTagAnswers.path,
-					addTagAnswers.tag,
-					addTagAnswers.replace,
+			}
+		});
+		for (const check of DOCTOR_CHECKS) {
+			const count = issues.filter((issue) => issue.check === check).length;
+			console.error(
+				`${count === 0 ? chalk.green("✔") : chalk.yellow("⚠")} ${DOCTOR_LABELS[check]}: ${count}`,
+			);
+		}
+	} catch (error) {
+		spinner.fail("Failed to check vault health");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
+
+const exportGraph = async (format: GraphFormat, options: GraphOptions) => {
+	const spinner = ora("Building graph...").start();
+	try {
+		const graph = buildGraph(await vaultIndex(), options);
+		spinner.succeed(
+			`Graph has ${graph.nodes.length} nodes and ${graph.edges.length} edges`,
+		);
+		console.log(renderGraph(graph, format));
+	} catch (error) {
+		spinner.fail("Failed to build graph");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
+
+const listVaults = async (format: OutputFormat = "text") => {
+	const spinner = ora("Reading config...").start();
+	try {
+		const config = await loadConfig();
+		const records = Object.entries(config.vaults || {}).map(
+			([name, profile]) => ({
+				name,
+				path: profile.path,
+				default: name === config.default,
+				current: name === vault.name,
+			}),
+		);
+		// A vault picked by path or detection is listed even without a profile
+		if (!vault.name) {
+			records.push({
+				name: "",
+				path: vault.path,
+				default: false,
+				current: true,
+			});
+		}
+		spinner.succeed(`${records.length} vaults (${configPath()})`);
+		writeRecords(format, records, ["name", "path", "default", "current"], () => {
+			for (const record of records) {
+				const marker = record.current ? chalk.green("*") : " ";
+				console.log(
+					`${marker} ${record.name ? chalk.bold(record.name) : chalk.gray("(no profile)")} ${record.path}${
+						record.default ? chalk.gray(" (default)") : ""
+					}`,
 				);
 			}
-			break;
-		case "search":
-			{
-				const searchAnswer = await inquirer.prompt([
-					{
-						type: "input",
-						name: "query",
-						message: "Enter search query:",
-						validate: (input: string) =>
-							input.length > 0 || "Search query is required",
-					},
-				]);
-				await searchContent(searchAnswer.query);
+		});
+		console.error(chalk.gray(`Current vault picked by: ${vault.source}`));
+	} catch (error) {
+		spinner.fail("Failed to list vaults");
+		console.error(
+			chalk.red("❌ Error:"),
+			error instanceof ConfigError ? error.message : error,
+		);
+		process.exitCode = 1;
+	}
+};
+
+const undo = async (format: OutputFormat = "text") => {
+	const spinner = ora("Restoring last batch...").start();
+	try {
+		const manifest = await undoLastBatch(vault.path);
+		if (!manifest) {
+			spinner.warn("Nothing to undo");
+			return;
+		}
+		const index = await vaultIndex();
+		for (const file of manifest.files) {
+			await updateIndexedFile(index, file.path, file.existed);
+		}
+		await saveVaultIndex(index);
+		spinner.succeed(
+			`Restored ${manifest.files.length} files from "${manifest.label}" (${manifest.createdAt})`,
+		);
+		const records = manifest.files.map((file) => ({
+			path: file.path,
+			action: file.existed ? "restored" : "removed",
+		}));
+		writeRecords(format, records, ["path", "action"], () => {
+			for (const file of manifest.files) {
+				console.log(file.path);
 			}
-			break;
-		case "backlinks":
+		});
+	} catch (error) {
+		spinner.fail("Failed to undo");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
+
+const showIndexStatus = async (format: OutputFormat = "text") => {
+	const spinner = ora("Checking index...").start();
+	try {
+		const status = await getIndexStatus(vault.path);
+		spinner.succeed("Index checked");
+		const records = [
+			...status.added.map((file) => ({ path: file, state: "added" })),
+			...status.changed.map((file) => ({ path: file, state: "changed" })),
+			...status.deleted.map((file) => ({ path: file, state: "deleted" })),
+		];
+		writeRecords(format, records, ["path", "state"], () => {
+			for (const record of records) {
+				console.log(`${record.state.padEnd(8)} ${record.path}`);
+			}
+		});
+		console.error(chalk.gray(`Cache: ${status.cachePath}`));
+		console.error(
+			chalk.gray(`Built: ${status.builtAt || "never"} (${status.cached} notes)`),
+		);
+		console.error(
+			records.length === 0
+				? chalk.green("✅ Index is up to date")
+				: chalk.yellow(`⚠️  ${records.length} notes are stale`),
+		);
+	} catch (error) {
+		spinner.fail("Failed to check index");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
+
+const rebuildIndex = async () => {
+	const spinner = ora("Rebuilding index...").start();
+	try {
+		const index = await rebuildVaultIndex(vault.path, ignoreOverrides());
+		spinner.succeed(`Index rebuilt (${index.notes.length} notes)`);
+	} catch (error) {
+		spinner.fail("Failed to rebuild index");
+		console.error(chalk.red("❌ Error:"), error);
+		process.exitCode = 1;
+	}
+};
+
+const mainMenu = async () => {
+	while (true) {
+		const { action } = await inquirer.prompt([
 			{
-				const backlinksAnswer = await inquirer.prompt([
+				type: "list",
+				name: "action",
+				message: "What would you like to do?",
+				choices: [
+					{ name: "List all markdown files", value: "list" },
+					{ name: "Update tags for multiple files", value: "update-tags" },
+					{ name: "Get all unique tags across files", value: "tags" },
 					{
-						type: "input",
-						name: "file",
-						message: "Enter file path to find backlinks for:",
-						validate: (input: string) =>
-							input.length > 0 || "File path is required",
+						name: "Add a tag to all files in a specific subpath",
+						value: "add-tag",
 					},
-				]);
-				await listBacklinks(backlinksAnswer.file);
-			}
-			break;
-		case "exit":
-			console.log("Goodbye!");
-			process.exit(0);
+					{ name: "Search content across files", value: "search" },
+					{ name: "Query notes by metadata", value: "query" },
+					{ name: "Run a table query", value: "table" },
+					{ name: "List backlinks for a file", value: "backlinks" },
+					{ name: "Undo the last batch of changes", value: "undo" },
+					{ name: "Exit", value: "exit" },
+				],
+			},
+		]);
+
+		switch (action) {
+			case "list":
+				await listFiles();
+				break;
+			case "update-tags":
+				{
+					const updateAnswers = await inquirer.prompt([
+						{
+							type: "input",
+							name: "files",
+							message: "Enter file paths (comma-separated):",
+							filter: parseList,
+						},
+						{
+							type: "input",
+							name: "tags",
+							message: "Enter tags to set (comma-separated):",
+							filter: parseList,
+						},
+						{
+							type: "confirm",
+							name: "replace",
+							message: "Replace existing tags instead of appending?",
+							default: false,
+						},
+					]);
+					if (updateAnswers.replace) {
+						console.log(
+							chalk.yellow("⚠️  Warning: Existing tags will be replaced!"),
+						);
+					}
+					await updateTags(
+						updateAnswers.files,
+						updateAnswers.tags,
+						updateAnswers.replace,
+					);
+				}
+				break;
+			case "tags":
+				{
+					const tagsAnswer = await inquirer.prompt([
+						{
+							type: "input",
+							name: "path",
+							message: "Enter subpath within the vault (optional):",
+							default: "",
+						},
+					]);
+					await getAllTags(tagsAnswer.path);
+				}
+				break;
+			case "add-tag":
+				{
+					const addTagAnswers = await inquirer.prompt([
+						{
+							type: "input",
+							name: "path",
+							message: "Enter subpath within the vault:",
+							validate: (input: string) =>
+								input.length > 0 || "Subpath is required",
+						},
+						{
+							type: "input",
+							name: "tag",
+							message: "Enter tag to add:",
+							validate: (input: string) => input.length > 0 || "Tag is required",
+						},
+						{
+							type: "confirm",
+							name: "replace",
+							message: "Replace existing tags instead of appending?",
+							default: false,
+						},
+					]);
+					if (addTagAnswers.replace) {
+						console.log(
+							chalk.yellow("⚠️  Warning: Existing tags will be replaced!"),
+						);
+					}
+					await addTagToSubpath(
+						addTagAnswers.path,
+						addTagAnswers.tag,
+						addTagAnswers.replace,
+					);
+				}
+				break;
+			case "search":
+				{
+					const searchAnswer = await inquirer.prompt([
+						{
+							type: "input",
+							name: "query",
+							message: "Enter search query:",
+							validate: (input: string) =>
+								input.length > 0 || "Search query is required",
+						},
+					]);
+					await searchContent(searchAnswer.query);
+				}
+				break;
+			case "query":
+				{
+					const queryAnswer = await inquirer.prompt([
+						{
+							type: "input",
+							name: "expression",
+							message: "Query (e.g. tag:project status=active):",
+							validate: (input: string) =>
+								input.length > 0 || "Query is required",
+						},
+					]);
+					await queryNotes(queryAnswer.expression);
+				}
+				break;
+			case "table":
+				{
+					const tableAnswer = await inquirer.prompt([
+						{
+							type: "input",
+							name: "query",
+							message: 'Query (e.g. TABLE status FROM "Projects" SORT file.mtime DESC):',
+							validate: (input: string) =>
+								input.length > 0 || "Query is required",
+						},
+					]);
+					await runTable(tableAnswer.query);
+				}
+				break;
+			case "backlinks":
+				{
+					const backlinksAnswer = await inquirer.prompt([
+						{
+							type: "input",
+							name: "file",
+							message: "Enter file path to find backlinks for:",
+							validate: (input: string) =>
+								input.length > 0 || "File path is required",
+						},
+					]);
+					await listBacklinks(backlinksAnswer.file);
+				}
+				break;
+			case "undo":
+				await undo();
+				break;
+			case "exit":
+				console.log("Goodbye!");
+				return;
+		}
 	}
+};
 
-	await mainMenu();
+const outputFormat = () => {
+	const { format } = program.opts<{ format: string }>();
+	if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+		program.error(`error: --format ${format} only applies to graph export`);
+	}
+	return format as OutputFormat;
 };
 
-mainMenu().catch((error) => {
+// `--format` is a global option, so `graph export` shares it; "text" means dot
+const graphFormat = () => {
+	const { format } = program.opts<{ format: string }>();
+	if (format === "text") {
+		return "dot";
+	}
+	if (!(GRAPH_FORMATS as readonly string[]).includes(format)) {
+		program.error(
+			`error: graph export supports --format ${GRAPH_FORMATS.join(", ")}`,
+		);
+	}
+	return format as GraphFormat;
+};
+
+// Watch events stream as they happen, which only fits text and JSON lines
+const watchFormat = () => {
+	const format = outputFormat();
+	if (format !== "text" && format !== "json" && format !== "ndjson") {
+		program.error("error: watch supports --format text, json or ndjson");
+	}
+	return format as "text" | "json" | "ndjson";
+};
+
+// An fm write without a target would rewrite every note, so that takes `--all`
+const requireTarget = (
+	command: string,
+	target: NoteTarget & { all?: boolean },
+) => {
+	if (!target.all && !target.files && !target.path && !target.where) {
+		program.error(
+			`error: ${command} needs --files, --path or --where, or --all to edit every note`,
+		);
+	}
+};
+
+program
+	.name("multimatter")
+	.description("CLI App to interact mainly with Obsidian vaults.")
+	.addOption(
+		new Option(
+			"--format <format>",
+			"output format for listing commands, or dot|graphml|mermaid|json for graph export",
+		)
+			.choices([...new Set([...OUTPUT_FORMATS, ...GRAPH_FORMATS])])
+			.default("text"),
+	)
+	.option("--vault <name|path>", "vault profile from the config file, or a vault path")
+	.option("--include <glob>", "only use notes matching the glob (repeatable)", collect, [])
+	.option("--exclude <glob>", "skip notes matching the glob (repeatable)", collect, [])
+	.hook("preAction", async () => {
+		try {
+			const config = await loadConfig();
+			vault = await resolveVault(
+				config,
+				program.opts<{ vault?: string }>().vault,
+			);
+		} catch (error) {
+			if (error instanceof ConfigError) {
+				program.error(`error: ${error.message}`);
+			}
+			throw error;
+		}
+	})
+	.action(async () => {
+		// No subcommand given: fall back to the interactive menu
+		await mainMenu();
+	});
+
+program
+	.command("list")
+	.description("List all markdown files")
+	.action(async () => {
+		await listFiles(outputFormat());
+	});
+
+const tagsCommand = program
+	.command("tags")
+	.description("Inspect and edit front matter tags");
+
+tagsCommand
+	.command("list", { isDefault: true })
+	.description("Get all unique tags across files")
+	.option("-p, --path <subpath>", "subpath within the vault", "")
+	.option("--tree", "show nested tags (area/work) as a tree", false)
+	.action(async (options: { path: string; tree: boolean }) => {
+		await getAllTags(options.path, outputFormat(), options.tree);
+	});
+
+tagsCommand
+	.command("update")
+	.description("Update tags for multiple files")
+	.requiredOption("-f, --files <files>", "file paths (comma-separated)", parseList)
+	.requiredOption("-t, --tags <tags>", "tags to set (comma-separated)", parseList)
+	.option("-r, --replace", "replace existing tags instead of appending", false)
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(
+		async (
+			options: { files: string[]; tags: string[]; replace: boolean } & WriteOptions,
+		) => {
+			await updateTags(
+				options.files,
+				options.tags.map(conventionalTag),
+				options.replace,
+				options,
+			);
+		},
+	);
+
+tagsCommand
+	.command("add")
+	.description("Add a tag to all files in a specific subpath")
+	.requiredOption("-p, --path <subpath>", "subpath within the vault")
+	.requiredOption("-t, --tag <tag>", "tag to add")
+	.option("-r, --replace", "replace existing tags instead of appending", false)
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(
+		async (
+			options: { path: string; tag: string; replace: boolean } & WriteOptions,
+		) => {
+			await addTagToSubpath(
+				options.path,
+				conventionalTag(options.tag),
+				options.replace,
+				options,
+			);
+		},
+	);
+
+tagsCommand
+	.command("normalize")
+	.description("Rewrite front matter tags as a canonical `tags` list")
+	.option("-p, --path <subpath>", "subpath within the vault", "")
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(async (options: { path: string } & WriteOptions) => {
+		await normalizeTags(options.path, options);
+	});
+
+tagsCommand
+	.command("rename")
+	.description("Rename a tag and its nested tags in front matter and inline")
+	.argument("<old>", "tag to rename", parseTag)
+	.argument("<new>", "new tag name", parseTag)
+	.option("-p, --path <subpath>", "subpath within the vault", "")
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(
+		async (
+			from: string,
+			to: string,
+			options: { path: string } & WriteOptions,
+		) => {
+			await retagNotes(
+				retag([from], conventionalTag(to)),
+				"tags rename",
+				options.path,
+				options,
+				outputFormat(),
+			);
+		},
+	);
+
+tagsCommand
+	.command("merge")
+	.description("Merge several tags into one")
+	.argument("<tags...>", "tags to merge")
+	.requiredOption("--into <tag>", "tag to merge into", parseTag)
+	.option("-p, --path <subpath>", "subpath within the vault", "")
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(
+		async (
+			tags: string[],
+			options: { into: string; path: string } & WriteOptions,
+		) => {
+			await retagNotes(
+				retag(tags, conventionalTag(options.into)),
+				"tags merge",
+				options.path,
+				options,
+				outputFormat(),
+			);
+		},
+	);
+
+tagsCommand
+	.command("remove")
+	.description("Remove a tag and its nested tags from front matter and inline")
+	.argument("<tag>", "tag to remove", parseTag)
+	.option("-p, --path <subpath>", "subpath within the vault", "")
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(async (tag: string, options: { path: string } & WriteOptions) => {
+		await retagNotes(
+			retag([tag], null),
+			"tags remove",
+			options.path,
+			options,
+			outputFormat(),
+		);
+	});
+
+const fmCommand = program
+	.command("fm")
+	.description("Read and edit any front matter field");
+
+fmCommand
+	.command("get")
+	.description("Print a field of every note that has it")
+	.argument("<field>", "front matter key")
+	.option("-f, --files <files>", "only these notes (comma-separated)", parseList)
+	.option("-p, --path <subpath>", "only notes in a subpath or matching a glob")
+	.option("-w, --where <query>", "only notes matching a query expression")
+	.action(async (field: string, options: NoteTarget) => {
+		await getField(field, options, outputFormat());
+	});
+
+fmCommand
+	.command("set")
+	.description("Set fields, e.g. status=done publish=true")
+	.argument("<assignments...>", "field=value pairs")
+	.addOption(
+		new Option("--type <type>", "parse values as this type").choices(
+			FIELD_TYPES,
+		),
+	)
+	.option("-f, --files <files>", "only these notes (comma-separated)", parseList)
+	.option("-p, --path <subpath>", "only notes in a subpath or matching a glob")
+	.option("-w, --where <query>", "only notes matching a query expression")
+	.option("--all", "edit every note when no other target is given", false)
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(
+		async (
+			assignments: string[],
+			options: { type?: FieldType; all: boolean } & NoteTarget & WriteOptions,
+		) => {
+			requireTarget("fm set", options);
+			let values: { field: string; value: unknown }[];
+			try {
+				values = assignments.map((assignment) => {
+					const { field, raw } = parseAssignment(assignment);
+					return { field, value: parseFieldValue(raw, options.type) };
+				});
+			} catch (error) {
+				program.error((error as Error).message);
+			}
+			await editFields(
+				"fm set",
+				options,
+				(frontMatter) => {
+					for (const { field, value } of values) {
+						frontMatter.set(field, value);
+					}
+				},
+				options,
+			);
+		},
+	);
+
+fmCommand
+	.command("unset")
+	.description("Remove fields")
+	.argument("<fields...>", "front matter keys")
+	.option("-f, --files <files>", "only these notes (comma-separated)", parseList)
+	.option("-p, --path <subpath>", "only notes in a subpath or matching a glob")
+	.option("-w, --where <query>", "only notes matching a query expression")
+	.option("--all", "edit every note when no other target is given", false)
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(
+		async (
+			fields: string[],
+			options: { all: boolean } & NoteTarget & WriteOptions,
+		) => {
+			requireTarget("fm unset", options);
+			await editFields(
+				"fm unset",
+				options,
+				(frontMatter) => {
+					for (const field of fields) {
+						frontMatter.delete(field);
+					}
+				},
+				options,
+			);
+		},
+	);
+
+fmCommand
+	.command("append")
+	.description("Add values to a list field, creating it when missing")
+	.argument("<field>", "front matter key of the list")
+	.argument("<values...>", "values to add")
+	.addOption(
+		new Option("--type <type>", "parse values as this type").choices(
+			FIELD_TYPES,
+		),
+	)
+	.option("-f, --files <files>", "only these notes (comma-separated)", parseList)
+	.option("-p, --path <subpath>", "only notes in a subpath or matching a glob")
+	.option("-w, --where <query>", "only notes matching a query expression")
+	.option("--all", "edit every note when no other target is given", false)
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(
+		async (
+			field: string,
+			values: string[],
+			options: { type?: FieldType; all: boolean } & NoteTarget & WriteOptions,
+		) => {
+			requireTarget("fm append", options);
+			let items: unknown[];
+			try {
+				items = values.flatMap((value) => {
+					const parsed = parseFieldValue(value, options.type);
+					return Array.isArray(parsed) ? parsed : [parsed];
+				});
+			} catch (error) {
+				program.error((error as Error).message);
+			}
+			await editFields(
+				"fm append",
+				options,
+				(frontMatter) => {
+					frontMatter.set(field, appendValues(frontMatter.get(field), items));
+				},
+				options,
+			);
+		},
+	);
+
+fmCommand
+	.command("rename-key")
+	.description("Rename a field, keeping its value and position")
+	.argument("<old>", "current key")
+	.argument("<new>", "new key")
+	.option("-f, --files <files>", "only these notes (comma-separated)", parseList)
+	.option("-p, --path <subpath>", "only notes in a subpath or matching a glob")
+	.option("-w, --where <query>", "only notes matching a query expression")
+	.option("--all", "edit every note when no other target is given", false)
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(
+		async (
+			from: string,
+			to: string,
+			options: { all: boolean } & NoteTarget & WriteOptions,
+		) => {
+			requireTarget("fm rename-key", options);
+			await editFields(
+				"fm rename-key",
+				options,
+				(frontMatter) => frontMatter.rename(from, to),
+				options,
+			);
+		},
+	);
+
+program
+	.command("search")
+	.description("Search content across files")
+	.argument("<query>", "text to search for")
+	.option("-i, --interactive", "browse the results interactively", false)
+	.option(
+		"-C, --context <lines>",
+		"lines of context around matches",
+		parseCount,
+		0,
+	)
+	.option("-s, --case-sensitive", "match case", false)
+	.option("-F, --fixed-strings", "treat the query as a literal string", false)
+	.action(
+		async (
+			query: string,
+			options: { interactive: boolean } & SearchOptions,
+		) => {
+			await searchContent(query, options.interactive, outputFormat(), options);
+		},
+	);
+
+program
+	.command("query")
+	.description("Find notes by metadata and full text")
+	// `-tag:archived` negates a term rather than being an option
+	.allowUnknownOption()
+	.argument(
+		"<expression...>",
+		'e.g. tag:project AND status=active date>=2024-01-01 path:Work/ -tag:archived "some phrase"',
+	)
+	.action(async (expression: string[]) => {
+		await queryNotes(expression.join(" "), outputFormat());
+	});
+
+program
+	.command("table")
+	.description("Run a Dataview-style TABLE query")
+	.argument(
+		"<query...>",
+		'e.g. \'TABLE status, file.mtime FROM "Projects" OR #work WHERE status = "active" SORT file.mtime DESC LIMIT 10\'',
+	)
+	.allowUnknownOption()
+	.action(async (query: string[]) => {
+		await runTable(query.join(" "), outputFormat());
+	});
+
+program
+	.command("backlinks")
+	.description("List backlinks for a file (same as `links back`)")
+	.argument("<note>", "file path to find backlinks for")
+	.action(async (note: string) => {
+		await listBacklinks(note, outputFormat());
+	});
+
+program
+	.command("preview")
+	.description(
+		"Render a note in the terminal with embeds, callouts and other Obsidian syntax",
+	)
+	.argument("<note>", "note path or link text")
+	.option("--depth <n>", "levels of embedded notes to include", parseCount, 3)
+	.option("--width <columns>", "wrap text at this width", parseCount)
+	.action(async (note: string, options: { depth: number; width?: number }) => {
+		await previewNote(note, { maxDepth: options.depth, width: options.width });
+	});
+
+const linksCommand = program
+	.command("links")
+	.description("Inspect wiki links, embeds and markdown links between notes");
+
+linksCommand
+	.command("out")
+	.description("List the links in a note and where they resolve")
+	.argument("<note>", "note path or link text")
+	.action(async (note: string) => {
+		await listOutgoingLinks(note, outputFormat());
+	});
+
+linksCommand
+	.command("back")
+	.description("List the notes linking to a note, with line numbers")
+	.argument("<note>", "note path or link text")
+	.action(async (note: string) => {
+		await listBacklinks(note, outputFormat());
+	});
+
+linksCommand
+	.command("unresolved")
+	.description("List links that don't resolve to a note or attachment")
+	.action(async () => {
+		await listUnresolvedLinks(outputFormat());
+	});
+
+linksCommand
+	.command("orphans")
+	.description("List notes without links to or from other notes")
+	.action(async () => {
+		await listOrphans(outputFormat());
+	});
+
+linksCommand
+	.command("stats")
+	.description("Count links, embeds, unresolved links and orphans")
+	.action(async () => {
+		await showLinkStats(outputFormat());
+	});
+
+program
+	.command("mv")
+	.description("Move or rename a note or folder and rewrite the links to it")
+	.argument("<old>", "note or folder path within the vault")
+	.argument("<new>", "new path within the vault")
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(async (from: string, to: string, options: WriteOptions) => {
+		await moveNotes(from, to, options, outputFormat());
+	});
+
+program
+	.command("lint")
+	.description("Check front matter against .multimatter/schema.yaml")
+	.option("--fix", "add missing defaults and wrap single values in lists", false)
+	.option("--dry-run", "with --fix, print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(async (options: { fix: boolean } & WriteOptions) => {
+		await lintNotes(options.fix, options, outputFormat());
+	});
+
+program
+	.command("doctor")
+	.description(
+		"Report broken links, missing attachments, duplicate titles, empty notes, invalid front matter and stale notes",
+	)
+	.option(
+		"--stale-days <days>",
+		"report notes not modified for this many days (0 to skip)",
+		parseCount,
+		365,
+	)
+	.action(async (options: { staleDays: number }) => {
+		await runDoctor(options.staleDays, outputFormat());
+	});
+
+const datesCommand = program
+	.command("dates")
+	.description("Maintain creation and modification dates in front matter");
+
+datesCommand
+	.command("sync")
+	.description(
+		"Fill missing creation dates and update modification dates from file times or git",
+	)
+	.option("--git", "use the first and last commit of each note", false)
+	.option(
+		"--since <when>",
+		"only notes changed since a date, or within 12h, 7d, 2w",
+		parseWhen,
+	)
+	.option("--date-field <key>", "key of the creation date", "date")
+	.option("--lastmod-field <key>", "key of the modification date", "lastmod")
+	.option("--date-format <format>", "creation date format, e.g. YYYY-MM-DD")
+	.option(
+		"--lastmod-format <format>",
+		"modification date format, e.g. YYYY-MM-DDTHH:mm",
+	)
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(async (options: DateSyncOptions & WriteOptions) => {
+		await syncDates(options, options, outputFormat());
+	});
+
+const tasksCommand = program
+	.command("tasks")
+	.description("List and check off `- [ ]` tasks across the vault");
+
+tasksCommand
+	.command("list", { isDefault: true })
+	.description("List tasks with their note, line, heading, tags and dates")
+	.option("-p, --path <subpath>", "subpath within the vault", "")
+	.addOption(
+		new Option("-s, --status <status>", "only tasks with this status").choices(
+			TASK_STATUSES,
+		),
+	)
+	.option(
+		"--due <when>",
+		"only tasks due today, overdue, none, on a date or in a range like 2024-05-01..today",
+		parseDue,
+	)
+	.option("-t, --tag <tag>", "only tasks with this tag", parseTag)
+	.action(async (options: TaskFilter) => {
+		await listTasks(options, outputFormat());
+	});
+
+tasksCommand
+	.command("done")
+	.description("Check off tasks, or open them again when already done")
+	.argument("<tasks...>", "tasks as <note>:<line>, e.g. Projects/Alpha.md:12")
+	.option("--no-done-date", "don't add the ✅ done date")
+	.option("--dry-run", "print a diff per file instead of writing", false)
+	.option("-y, --yes", "don't ask for confirmation", false)
+	.option("--fail-fast", "stop at the first file that fails", false)
+	.action(
+		async (tasks: string[], options: WriteOptions & { doneDate: boolean }) => {
+			await toggleTasks(tasks, options);
+		},
+	);
+
+program
+	.command("watch")
+	.description(
+		"Keep the index and front matter in sync while notes change, logging every event",
+	)
+	.option("--lastmod", "set lastmod to the modification time on every save", false)
+	.option("--lastmod-field <key>", "key of the modification date", "lastmod")
+	.option("--lastmod-format <format>", "modification date format, e.g. YYYY-MM-DD")
+	.option(
+		"--tag <folder=tag>",
+		"add a tag to notes saved in a folder (repeatable)",
+		parseFolderTag,
+		[],
+	)
+	.option("--lint", "check front matter against .multimatter/schema.yaml", false)
+	.option(
+		"--debounce <ms>",
+		"wait this long after the last change to a file",
+		parseCount,
+		300,
+	)
+	.action(
+		async (options: {
+			lastmod: boolean;
+			lastmodField: string;
+			lastmodFormat?: string;
+			tag: WatchRules["folderTags"];
+			lint: boolean;
+			debounce: number;
+		}) => {
+			await runWatch(
+				{
+					lastmod: options.lastmod
+						? { field: options.lastmodField, format: options.lastmodFormat }
+						: undefined,
+					folderTags: [
+						...Object.entries(vault.profile?.tags?.folders || {}).map(
+							([folder, tag]) => ({ folder, tag }),
+						),
+						...options.tag,
+					].map(({ folder, tag }) => ({ folder, tag: conventionalTag(tag) })),
+					lint: options.lint,
+				},
+				options.debounce,
+				watchFormat(),
+			);
+		},
+	);
+
+const graphCommand = program
+	.command("graph")
+	.description("Export the link graph of the vault");
+
+graphCommand
+	.command("export")
+	.description(
+		"Write the link graph as DOT (default), GraphML, Mermaid or JSON, picked with --format",
+	)
+	.option("-p, --path <folder>", "only notes in this folder")
+	.option("-t, --tag <tag>", "only notes with this tag", parseTag)
+	.option("--tags", "add tag nodes linked to their notes", false)
+	.option("--focus <note>", "only notes around this note")
+	.option("--depth <n>", "links to follow from --focus", parseCount, 1)
+	.option(
+		"--collapse-folders [levels]",
+		"draw notes as their folder, keeping this many levels",
+		parseCount,
+	)
+	.action(
+		async (options: {
+			path?: string;
+			tag?: string;
+			tags: boolean;
+			focus?: string;
+			depth: number;
+			collapseFolders?: number | true;
+		}) => {
+			await exportGraph(graphFormat(), {
+				folder: options.path,
+				tag: options.tag,
+				tagNodes: options.tags,
+				focus: options.focus,
+				depth: options.depth,
+				collapseFolders:
+					options.collapseFolders === true ? 1 : options.collapseFolders,
+			});
+		},
+	);
+
+const vaultsCommand = program
+	.command("vaults")
+	.description("Show the vaults configured in ~/.config/multimatter/config.yaml");
+
+vaultsCommand
+	.command("list", { isDefault: true })
+	.description("List vault profiles, marking the default and the current vault")
+	.action(async () => {
+		await listVaults(outputFormat());
+	});
+
+program
+	.command("undo")
+	.description("Restore the files changed by the last write command")
+	.action(async () => {
+		await undo(outputFormat());
+	});
+
+const indexCommand = program
+	.command("index")
+	.description("Manage the cached vault index in .multimatter/index.json");
+
+indexCommand
+	.command("status")
+	.description("Show notes added, changed or deleted since the index was built")
+	.action(async () => {
+		await showIndexStatus(outputFormat());
+	});
+
+indexCommand
+	.command("rebuild")
+	.description("Parse every note again and rewrite the index")
+	.action(async () => {
+		await rebuildIndex();
+	});
+
+program.parseAsync(process.argv).catch((error) => {
 	console.error(chalk.red("An error occurred:"), error);
 	process.exit(1);
 });
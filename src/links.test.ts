@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import * as path from "node:path";
+import { createLinkResolver, formatLink, parseLinks } from "./links";
+
+describe("parseLinks", () => {
+	test("reads wiki links, embeds and markdown links with positions", () => {
+		const body = [
+			"See [[Alpha#Goals|the goals]] and ![[diagram.png|300]].",
+			"A [markdown link](Work/Beta.md#^abc) and [[Gamma.md]].",
+		].join("\n");
+		expect(parseLinks(body, 5)).toEqual([
+			{
+				target: "Alpha",
+				subpath: "#Goals",
+				alias: "the goals",
+				embed: false,
+				kind: "wiki",
+				line: 5,
+				column: 5,
+				original: "[[Alpha#Goals|the goals]]",
+			},
+			{
+				target: "diagram.png",
+				subpath: undefined,
+				alias: "300",
+				embed: true,
+				kind: "wiki",
+				line: 5,
+				column: 35,
+				original: "![[diagram.png|300]]",
+			},
+			{
+				target: "Work/Beta",
+				subpath: "#^abc",
+				alias: "markdown link",
+				embed: false,
+				kind: "markdown",
+				line: 6,
+				column: 3,
+				original: "[markdown link](Work/Beta.md#^abc)",
+			},
+			{
+				target: "Gamma",
+				subpath: undefined,
+				alias: undefined,
+				embed: false,
+				kind: "wiki",
+				line: 6,
+				column: 42,
+				original: "[[Gamma.md]]",
+			},
+		]);
+	});
+
+	test("skips code and URLs", () => {
+		const body = [
+			"`[[Inline]]` [site](https://example.com) [mail](mailto:a@b.c)",
+			"```",
+			"[[Fenced]]",
+			"```",
+			"[[Real]]",
+		].join("\n");
+		expect(parseLinks(body).map((link) => link.target)).toEqual(["Real"]);
+	});
+
+	test("decodes markdown destinations and splits escaped table pipes", () => {
+		const [markdown, wiki] = parseLinks(
+			"[a](My%20Note.md) | [[Note\\|alias]] |",
+		);
+		expect(markdown.target).toBe("My Note");
+		expect(wiki.target).toBe("Note");
+		expect(wiki.alias).toBe("alias");
+	});
+
+	test("links to a heading in the same note have an empty target", () => {
+		expect(parseLinks("[[#Heading]]")[0]).toMatchObject({
+			target: "",
+			subpath: "#Heading",
+		});
+	});
+});
+
+describe("createLinkResolver", () => {
+	const files = [
+		"Note.md",
+		path.join("Work", "Note.md"),
+		path.join("Work", "Deep", "Report.md"),
+		path.join("Archive", "Report.md"),
+		path.join("Archive", "Old", "Report.md"),
+		path.join("attachments", "diagram.png"),
+	];
+	const resolve = createLinkResolver(files);
+
+	test("prefers the linking note's folder, then the shortest path", () => {
+		expect(resolve("Report", path.join("Work", "Deep", "Index.md"))).toBe(
+			path.join("Work", "Deep", "Report.md"),
+		);
+		expect(resolve("Report", "Index.md")).toBe(path.join("Archive", "Report.md"));
+		// A full vault path wins over the linking note's folder
+		expect(resolve("Note", path.join("Work", "Index.md"))).toBe("Note.md");
+	});
+
+	test("resolves vault paths, path suffixes and relative paths", () => {
+		expect(resolve("Work/Note", "Index.md")).toBe(path.join("Work", "Note.md"));
+		expect(resolve("Deep/Report", "Index.md")).toBe(
+			path.join("Work", "Deep", "Report.md"),
+		);
+		expect(resolve("../Note", path.join("Work", "Index.md"))).toBe("Note.md");
+		expect(resolve("Old/Report", "Index.md", "markdown")).toBe(
+			path.join("Archive", "Old", "Report.md"),
+		);
+		expect(resolve("Report", path.join("Archive", "Index.md"), "markdown")).toBe(
+			path.join("Archive", "Report.md"),
+		);
+	});
+
+	test("matches case-insensitively, with attachments and self links", () => {
+		expect(resolve("work/NOTE", "Index.md")).toBe(path.join("Work", "Note.md"));
+		expect(resolve("diagram.png", "Index.md")).toBe(
+			path.join("attachments", "diagram.png"),
+		);
+		expect(resolve("", "Note.md")).toBe("Note.md");
+		expect(resolve("Missing", "Note.md")).toBeUndefined();
+	});
+});
+
+describe("formatLink", () => {
+	test("replaces the path and keeps everything else", () => {
+		const [wiki, markdown, angled] = parseLinks(
+			"![[Old.md#Part|alias]] [x](Old.md#Part) [y](<Old Note.md>)",
+		);
+		expect(formatLink(wiki, "New/Name")).toBe("![[New/Name.md#Part|alias]]");
+		expect(formatLink(markdown, "New Name")).toBe("[x](New%20Name.md#Part)");
+		expect(formatLink(angled, "New Name")).toBe("[y](<New Name.md>)");
+	});
+});
@@ -0,0 +1,276 @@
+import * as path from "node:path";
+import type { Note, VaultIndex } from "./vault-index";
+
+export type NoteLink = {
+	/** Link path as written, without subpath, alias or `.md`; "" links to the note itself. */
+	target: string;
+	/** `#Heading` or `#^block`. */
+	subpath?: string;
+	/** Wiki link alias or markdown link text. */
+	alias?: string;
+	embed: boolean;
+	kind: "wiki" | "markdown";
+	/** 1-based position of the link in the file. */
+	line: number;
+	column: number;
+	/** The link as it appears in the note. */
+	original: string;
+};
+
+export type ResolvedLink = NoteLink & {
+	/** Note containing the link. */
+	source: string;
+	/** Vault-relative path the link points to, or undefined when unresolved. */
+	resolved: string | undefined;
+};
+
+export type LinkGraph = {
+	outgoing: Map<string, ResolvedLink[]>;
+	incoming: Map<string, ResolvedLink[]>;
+	unresolved: ResolvedLink[];
+	/** Resolve a link path as written in `source` (a vault-relative path). */
+	resolve: (target: string, source: string) => string | undefined;
+};
+
+// Code where `[[` and `](` are never links
+const CODE = /^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$|`[^`\n]*`/gm;
+
+const WIKI_LINK = /(!?)\[\[([^\[\]\n]+?)\]\]/g;
+
+const MARKDOWN_LINK =
+	/(!?)\[([^\]\n]*)\]\((<[^>\n]+>|[^)\s]+)(?:\s+(?:"[^"\n]*"|'[^'\n]*'))?\)/g;
+
+const URL_SCHEME = /^[a-z][a-z\d+.-]*:/i;
+
+/** Blank out code, keeping offsets and line breaks intact. */
+const maskCode = (content: string) =>
+	content.replace(CODE, (code) => code.replace(/[^\n]/g, " "));
+
+/** Split `Note#Heading`, `Note#^block` or `Note^block` into path and subpath. */
+export const splitSubpath = (link: string) => {
+	const hash = link.indexOf("#");
+	const caret = link.indexOf("^");
+	if (hash !== -1) {
+		return { target: link.slice(0, hash), subpath: link.slice(hash) };
+	}
+	if (caret !== -1) {
+		return { target: link.slice(0, caret), subpath: `#${link.slice(caret)}` };
+	}
+	return { target: link, subpath: undefined };
+};
+
+const stripMd = (target: string) => target.replace(/\.md$/i, "");
+
+const decode = (target: string) => {
+	try {
+		return decodeURIComponent(target);
+	} catch {
+		return target;
+	}
+};
+
+/**
+ * Wiki links (`[[Note#Heading|alias]]`), embeds (`![[...]]`) and markdown
+ * links (`[text](Folder/Note.md)`) in a note body. Links inside code are
+ * skipped and URLs are not links. `bodyBegin` is the file line of the
+ * body's first line, so positions refer to the whole file.
+ */
+export const parseLinks = (body: string, bodyBegin = 1) => {
+	const masked = maskCode(body);
+	const lineStarts = [0];
+	for (let i = 0; i < body.length; i++) {
+		if (body[i] === "\n") {
+			lineStarts.push(i + 1);
+		}
+	}
+	const position = (offset: number) => {
+		let low = 0;
+		let high = lineStarts.length - 1;
+		while (low < high) {
+			const mid = Math.ceil((low + high) / 2);
+			if (lineStarts[mid] <= offset) {
+				low = mid;
+			} else {
+				high = mid - 1;
+			}
+		}
+		return { line: bodyBegin + low, column: offset - lineStarts[low] + 1 };
+	};
+
+	const links: NoteLink[] = [];
+	for (const match of masked.matchAll(WIKI_LINK)) {
+		const index = match.index || 0;
+		// `|` is escaped as `\|` inside tables
+		const [link, ...alias] = match[2].split(/\\?\|/);
+		links.push({
+			...splitSubpath(stripMd(link.trim())),
+			alias: alias.length > 0 ? alias.join("|") : undefined,
+			embed: match[1] === "!",
+			kind: "wiki",
+			...position(index),
+			original: body.slice(index, index + match[0].length),
+		});
+	}
+	for (const match of masked.matchAll(MARKDOWN_LINK)) {
+		const destination = decode(match[3].replace(/^<|>$/g, ""));
+		if (URL_SCHEME.test(destination)) {
+			continue;
+		}
+		const index = match.index || 0;
+		const { target, subpath } = splitSubpath(destination);
+		links.push({
+			target: stripMd(target),
+			subpath,
+			alias: match[2] || undefined,
+			embed: match[1] === "!",
+			kind: "markdown",
+			...position(index),
+			original: body.slice(index, index + match[0].length),
+		});
+	}
+	return links.sort((a, b) => a.line - b.line || a.column - b.column);
+};
+
+const toPosix = (relPath: string) => relPath.split(path.sep).join("/");
+
+/**
+ * The link with its path replaced by `target` (a link path without `.md`).
+ * Subpath, alias, embed marker and a written `.md` extension are kept as
+ * they were.
+ */
+export const formatLink = (link: NoteLink, target: string) => {
+	if (link.kind === "wiki") {
+		const match = link.original.match(/^(!?\[\[\s*)([^#^|\\\]]*)([\s\S]*)$/);
+		if (!match) {
+			return link.original;
+		}
+		const extension = /\.md\s*$/i.test(match[2]) ? ".md" : "";
+		const trailing = match[2].match(/\s*$/)?.[0] || "";
+		return match[1] + target + extension + trailing + match[3];
+	}
+	const match = link.original.match(/^(!?\[[^\]\n]*\]\()(<[^>\n]+>|[^)\s]+)([\s\S]*)$/);
+	if (!match) {
+		return link.original;
+	}
+	const angled = match[2].startsWith("<");
+	const destination = angled ? match[2].slice(1, -1) : match[2];
+	const hash = destination.search(/[#^]/);
+	const pathPart = hash === -1 ? destination : destination.slice(0, hash);
+	const subpath = hash === -1 ? "" : destination.slice(hash);
+	const extension = /\.md$/i.test(decode(pathPart)) ? ".md" : "";
+	const written = target + extension;
+	return (
+		match[1] +
+		(angled
+			? `<${written}${subpath}>`
+			: written.replace(/ /g, "%20") + subpath) +
+		match[3]
+	);
+};
+
+/**
+ * Resolve link paths the way Obsidian does: paths relative to the linking
+ * note (`./`, `../` and markdown links) and full vault paths win, otherwise
+ * the shortest path ending in the link is used, preferring the linking
+ * note's own folder. Matching is case-insensitive and `.md` is optional.
+ */
+export const createLinkResolver = (files: string[]) => {
+	const byPath = new Map<string, string>();
+	const byName = new Map<string, string[]>();
+	for (const file of files) {
+		const posix = toPosix(file).toLowerCase();
+		byPath.set(posix, file);
+		const name = path.posix.basename(posix);
+		byName.set(name, [...(byName.get(name) || []), file]);
+	}
+
+	return (target: string, source: string, kind: NoteLink["kind"] = "wiki") => {
+		if (!target) {
+			return source;
+		}
+		const link = target.replace(/\\/g, "/").replace(/^\/+/, "").toLowerCase();
+		const folder = path.posix.dirname(toPosix(source)).toLowerCase();
+		const candidates = path.posix.extname(link) ? [`${link}.md`, link] : [`${link}.md`];
+		for (const candidate of candidates) {
+			if (kind === "markdown" || /^\.\.?\//.test(candidate)) {
+				const relative = byPath.get(
+					path.posix.normalize(path.posix.join(folder, candidate)),
+				);
+				if (relative) {
+					return relative;
+				}
+			}
+			const exact = byPath.get(path.posix.normalize(candidate));
+			if (exact) {
+				return exact;
+			}
+			const matches = (byName.get(path.posix.basename(candidate)) || []).filter(
+				(file) => {
+					const posix = toPosix(file).toLowerCase();
+					return posix === candidate || posix.endsWith(`/${candidate}`);
+				},
+			);
+			if (matches.length > 0) {
+				const depth = (file: string) => toPosix(file).split("/").length;
+				const inFolder = (file: string) =>
+					path.posix.dirname(toPosix(file)).toLowerCase() === folder;
+				return matches.sort(
+					(a, b) =>
+						Number(inFolder(b)) - Number(inFolder(a)) ||
+						depth(a) - depth(b) ||
+						a.localeCompare(b),
+				)[0];
+			}
+		}
+		return undefined;
+	};
+};
+
+/**
+ * Resolve the links of every selected note. Links resolve against all notes
+ * and attachments in the vault, including notes outside the
+ * `--include`/`--exclude` selection.
+ */
+export const buildLinkGraph = (index: VaultIndex): LinkGraph => {
+	const resolver = createLinkResolver(index.files);
+	const outgoing = new Map<string, ResolvedLink[]>();
+	const incoming = new Map<string, ResolvedLink[]>();
+	const unresolved: ResolvedLink[] = [];
+
+	for (const note of index.notes) {
+		const links = note.links.map((link) => ({
+			...link,
+			source: note.path,
+			resolved: resolver(link.target, note.path, link.kind),
+		}));
+		outgoing.set(note.path, links);
+		for (const link of links) {
+			if (link.resolved === undefined) {
+				unresolved.push(link);
+			} else {
+				incoming.set(link.resolved, [
+					...(incoming.get(link.resolved) || []),
+					link,
+				]);
+			}
+		}
+	}
+	return {
+		outgoing,
+		incoming,
+		unresolved,
+		resolve: (target, source) => resolver(target, source),
+	};
+};
+
+/** Notes without resolved links to or from another note. */
+export const findOrphans = (graph: LinkGraph, notes: Note[]) =>
+	notes.filter(
+		(note) =>
+			!(graph.outgoing.get(note.path) || []).some(
+				(link) => link.resolved && link.resolved !== note.path,
+			) &&
+			!(graph.incoming.get(note.path) || []).some(
+				(link) => link.source !== note.path,
+			),
+	);
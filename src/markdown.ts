@@ -0,0 +1,651 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import chalk, { type ChalkInstance } from "chalk";
+import {
+	Marked,
+	type MarkedExtension,
+	type RendererThis,
+	type Token,
+	type Tokens,
+} from "marked";
+import { markedTerminal } from "marked-terminal";
+import { splitFrontMatter } from "./frontmatter";
+import { createLinkResolver, splitSubpath } from "./links";
+import { formatTable } from "./output";
+import { QuerySyntaxError } from "./query";
+import { parseTableQuery, runTableQuery, type TableResult } from "./table-query";
+import type { VaultIndex } from "./vault-index";
+
+export type RenderOptions = {
+	/** Column to wrap text at; defaults to the terminal width. */
+	width?: number;
+	/** Levels of embedded notes to transclude; deeper embeds are left out. */
+	maxDepth?: number;
+};
+
+type CalloutStyle = { icon: string; color: ChalkInstance };
+
+const CALLOUT_STYLES: Record<string, CalloutStyle> = {
+	note: { icon: "✎", color: chalk.blue },
+	abstract: { icon: "☰", color: chalk.cyan },
+	info: { icon: "ℹ", color: chalk.blue },
+	todo: { icon: "☐", color: chalk.blue },
+	tip: { icon: "★", color: chalk.cyan },
+	success: { icon: "✔", color: chalk.green },
+	question: { icon: "?", color: chalk.yellow },
+	warning: { icon: "⚠", color: chalk.yellow },
+	failure: { icon: "✘", color: chalk.red },
+	danger: { icon: "⚡", color: chalk.red },
+	bug: { icon: "✱", color: chalk.red },
+	example: { icon: "▤", color: chalk.magenta },
+	quote: { icon: "❝", color: chalk.gray },
+};
+
+// Other names Obsidian accepts for the same callouts
+const CALLOUT_ALIASES: Record<string, string> = {
+	summary: "abstract",
+	tldr: "abstract",
+	hint: "tip",
+	important: "tip",
+	check: "success",
+	done: "success",
+	help: "question",
+	faq: "question",
+	caution: "warning",
+	attention: "warning",
+	fail: "failure",
+	missing: "failure",
+	error: "danger",
+	cite: "quote",
+};
+
+const CALLOUT =
+	/^ {0,3}>[ \t]*\[!([\w-]+)\][+-]?[ \t]*([^\n]*)(?:\n|$)((?: {0,3}>[^\n]*(?:\n|$))*)/;
+
+const IMAGE = /\.(png|jpe?g|gif|bmp|svg|webp|avif)$/i;
+const AUDIO = /\.(mp3|wav|m4a|ogg|flac|3gp)$/i;
+const VIDEO = /\.(mp4|webm|mov|mkv|ogv)$/i;
+
+const URL_SCHEME = /^[a-z][a-z\d+.-]*:/i;
+
+type EmbedToken = Tokens.Generic & {
+	target: string;
+	subpath?: string;
+	/** `300` or `300x200` after the `|` of an image embed. */
+	size?: string;
+};
+
+/** What an embed or image turned out to be, found before rendering. */
+type Resolved =
+	| { note: string; tokens: Token[] }
+	| { file: string; dimensions?: string }
+	| { problem: string };
+
+const visibleLength = (text: string) =>
+	text.replace(/\x1b\[[0-9;]*m/g, "").length;
+
+/** A box around rendered text, left open on the right so long lines fit. */
+const frame = (
+	color: ChalkInstance,
+	title: string,
+	body: string,
+	width: number,
+) => {
+	const top = `╭─ ${title} `;
+	const rule = (used: number) => "─".repeat(Math.max(2, width - used));
+	return [
+		color("╭─ ") +
+			chalk.bold(color(title)) +
+			color(` ${rule(visibleLength(top))}`),
+		...body
+			.trimEnd()
+			.split("\n")
+			.map((line) => color("│ ") + line),
+		color(`╰${rule(1)}`),
+		"",
+		"",
+	].join("\n");
+};
+
+const attachment = (kind: string, name: string, details: string[]) =>
+	chalk.gray(`[${kind}: `) +
+	name +
+	chalk.gray(`${details.map((detail) => `, ${detail}`).join("")}]`);
+
+const attachmentKind = (file: string) =>
+	IMAGE.test(file)
+		? "image"
+		: AUDIO.test(file)
+			? "audio"
+			: VIDEO.test(file)
+				? "video"
+				: /\.pdf$/i.test(file)
+					? "pdf"
+					: "file";
+
+/** Pixel size of a PNG, GIF, JPEG or WebP image from its header. */
+const imageDimensions = async (file: string) => {
+	const data = await fs.readFile(file).catch(() => undefined);
+	if (!data || data.length < 30) {
+		return undefined;
+	}
+	const size = (width: number, height: number) => `${width}×${height}`;
+	if (data.readUInt32BE(0) === 0x89504e47) {
+		return size(data.readUInt32BE(16), data.readUInt32BE(20));
+	}
+	if (data.toString("ascii", 0, 4) === "GIF8") {
+		return size(data.readUInt16LE(6), data.readUInt16LE(8));
+	}
+	if (
+		data.toString("ascii", 0, 4) === "RIFF" &&
+		data.toString("ascii", 8, 12) === "WEBP"
+	) {
+		switch (data.toString("ascii", 12, 16)) {
+			case "VP8X":
+				return size(data.readUIntLE(24, 3) + 1, data.readUIntLE(27, 3) + 1);
+			case "VP8 ":
+				return size(
+					data.readUInt16LE(26) & 0x3fff,
+					data.readUInt16LE(28) & 0x3fff,
+				);
+			case "VP8L": {
+				const bits = data.readUInt32LE(21);
+				return size((bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1);
+			}
+		}
+		return undefined;
+	}
+	if (data[0] === 0xff && data[1] === 0xd8) {
+		// Walk the segments up to the frame header (SOFn)
+		let offset = 2;
+		while (offset + 9 < data.length && data[offset] === 0xff) {
+			const marker = data[offset + 1];
+			if (marker === 0xff) {
+				offset++;
+				continue;
+			}
+			if (
+				marker >= 0xc0 &&
+				marker <= 0xcf &&
+				![0xc4, 0xc8, 0xcc].includes(marker)
+			) {
+				return size(data.readUInt16BE(offset + 7), data.readUInt16BE(offset + 5));
+			}
+			offset += 2 + data.readUInt16BE(offset + 2);
+		}
+	}
+	return undefined;
+};
+
+// Heading text as Obsidian matches it in links, where `:` and the like are dropped
+const headingKey = (text: string) =>
+	text
+		.replace(/[^\p{L}\p{N}]+/gu, " ")
+		.trim()
+		.toLowerCase();
+
+/**
+ * The part of a note an embed points at: everything under `#Heading` up to
+ * the next heading of the same level, or the paragraph or list item marked
+ * with `#^block`. Undefined when the note has no such heading or block.
+ */
+const extractSection = (body: string, subpath?: string) => {
+	if (!subpath) {
+		return body;
+	}
+	const lines = body.split(/\r?\n/);
+	const inCode: boolean[] = [];
+	let fenced = false;
+	for (const line of lines) {
+		const fence = /^\s*(```|~~~)/.test(line);
+		inCode.push(fenced || fence);
+		if (fence) {
+			fenced = !fenced;
+		}
+	}
+
+	if (subpath.startsWith("#^")) {
+		const id = subpath.slice(2).toLowerCase();
+		const at = lines.findIndex(
+			(line, i) =>
+				!inCode[i] &&
+				line.match(/(?:^|\s)\^([\w-]+)\s*$/)?.[1].toLowerCase() === id,
+		);
+		if (at === -1) {
+			return undefined;
+		}
+		// An ID on its own line marks the block above it
+		const ownLine = /^\s*\^[\w-]+\s*$/.test(lines[at]);
+		if (!ownLine && /^\s*([-*+]|\d+[.)])\s/.test(lines[at])) {
+			return lines[at];
+		}
+		let start = ownLine ? at - 1 : at;
+		let end = ownLine ? at : at + 1;
+		while (start > 0 && lines[start - 1].trim()) {
+			start--;
+		}
+		while (!ownLine && end < lines.length && lines[end].trim()) {
+			end++;
+		}
+		return lines.slice(Math.max(0, start), end).join("\n");
+	}
+
+	// `#Parent#Child` points at the last heading
+	const wanted = headingKey(subpath.split("#").pop() || "");
+	const heading = (i: number) =>
+		inCode[i] ? null : lines[i].match(/^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+	const start = lines.findIndex(
+		(_, i) => headingKey(heading(i)?.[2] ?? "\0") === wanted,
+	);
+	if (start === -1) {
+		return undefined;
+	}
+	const level = heading(start)?.[1].length ?? 1;
+	let end = start + 1;
+	while (end < lines.length && !((heading(end)?.[1].length ?? 7) <= level)) {
+		end++;
+	}
+	return lines.slice(start, end).join("\n");
+};
+
+const parseEmbed = (inner: string) => {
+	const [link, size] = inner.split("|");
+	return { ...splitSubpath(link.trim()), size: size?.trim() || undefined };
+};
+
+/**
+ * A `marked` instance rendering for the terminal with `marked-terminal`,
+ * plus Obsidian's syntax: embeds, callouts, `==highlights==`, wiki links,
+ * tags, `%%comments%%` and `^block-ids`, Mermaid and Dataview blocks.
+ * Embeds, images and Dataview queries are looked up in `resolved` and
+ * `queries`, filled in between lexing and rendering.
+ */
+const createMarked = (
+	width: number,
+	resolved: Map<Token, Resolved>,
+	queries: Map<Token, TableResult | Error>,
+) => {
+	const md = new Marked();
+	// The typings still describe the old renderer class, not the extension
+	md.use(
+		markedTerminal({
+			code: chalk.cyan,
+			blockquote: chalk.gray.italic,
+			html: chalk.gray,
+			heading: chalk.green.bold,
+			firstHeading: chalk.magenta.underline.bold,
+			hr: chalk.reset,
+			listitem: chalk.reset,
+			table: chalk.reset,
+			paragraph: chalk.reset,
+			strong: chalk.bold,
+			em: chalk.italic,
+			codespan: chalk.cyan,
+			del: chalk.dim.gray.strikethrough,
+			link: chalk.blue,
+			href: chalk.blue.underline,
+			width,
+			reflowText: true,
+			showSectionPrefix: true,
+			unescape: true,
+			emoji: true,
+			tab: 2,
+		}) as unknown as MarkedExtension,
+	);
+
+	const hidden = () => "";
+
+	function renderEmbed(this: RendererThis, token: Tokens.Generic) {
+		const { target, subpath, size } = token as EmbedToken;
+		const name = `${target}${subpath || ""}`;
+		const block = token.type === "embed";
+		const found = resolved.get(token);
+		let text: string;
+		if (found && "note" in found) {
+			const body = this.parser.parse(found.tokens);
+			return frame(chalk.gray, `↳ ${name}`, body, width);
+		}
+		if (!found) {
+			// Notes embedded inside a paragraph aren't transcluded
+			text = chalk.blue(`↳ ${name}`);
+		} else if ("problem" in found) {
+			text = chalk.yellow(`[embed: ${name}, ${found.problem}]`);
+		} else {
+			const details = [
+				found.dimensions,
+				size && `shown at ${size.replace("x", "×")}`,
+			];
+			text = attachment(
+				attachmentKind(found.file),
+				name,
+				details.filter((detail): detail is string => Boolean(detail)),
+			);
+		}
+		return block ? `${text}\n\n` : text;
+	}
+
+	md.use({
+		extensions: [
+			{
+				name: "comment",
+				level: "block",
+				tokenizer: (src) => {
+					const match = src.match(/^%%[\s\S]*?%%[ \t]*(?:\n+|$)/);
+					return match ? { type: "comment", raw: match[0] } : undefined;
+				},
+				renderer: hidden,
+			},
+			{
+				name: "inlineComment",
+				level: "inline",
+				start: (src) => src.indexOf("%%"),
+				tokenizer: (src) => {
+					const match = src.match(/^%%[\s\S]*?%%/);
+					return match ? { type: "inlineComment", raw: match[0] } : undefined;
+				},
+				renderer: hidden,
+			},
+			{
+				name: "blockId",
+				level: "block",
+				tokenizer: (src) => {
+					const match = src.match(/^\^[\w-]+[ \t]*(?:\n+|$)/);
+					return match ? { type: "blockId", raw: match[0] } : undefined;
+				},
+				renderer: hidden,
+			},
+			{
+				name: "inlineBlockId",
+				level: "inline",
+				start: (src) => src.search(/\s\^[\w-]+[ \t]*(?:\n|$)/),
+				tokenizer: (src) => {
+					const match = src.match(/^\s*\^[\w-]+[ \t]*(?=\n|$)/);
+					return match ? { type: "inlineBlockId", raw: match[0] } : undefined;
+				},
+				renderer: hidden,
+			},
+			{
+				name: "callout",
+				level: "block",
+				tokenizer(src) {
+					const match = src.match(CALLOUT);
+					if (!match) {
+						return undefined;
+					}
+					const kind = match[1].toLowerCase();
+					const title =
+						match[2].trim() || kind.charAt(0).toUpperCase() + kind.slice(1);
+					return {
+						type: "callout",
+						raw: match[0],
+						kind,
+						title: this.lexer.inlineTokens(title),
+						tokens: this.lexer.blockTokens(
+							match[3].replace(/^ {0,3}> ?/gm, ""),
+							[],
+						),
+					};
+				},
+				renderer(token) {
+					const style =
+						CALLOUT_STYLES[CALLOUT_ALIASES[token.kind] || token.kind] ||
+						CALLOUT_STYLES.note;
+					return frame(
+						style.color,
+						`${style.icon} ${this.parser.parseInline(token.title)}`,
+						this.parser.parse(token.tokens ?? []),
+						width,
+					);
+				},
+			},
+			{
+				name: "embed",
+				level: "block",
+				tokenizer: (src) => {
+					const match = src.match(/^ {0,3}!\[\[([^[\]\n]+?)\]\][ \t]*(?:\n+|$)/);
+					return match
+						? { type: "embed", raw: match[0], ...parseEmbed(match[1]) }
+						: undefined;
+				},
+				renderer: renderEmbed,
+			},
+			{
+				name: "inlineEmbed",
+				level: "inline",
+				start: (src) => src.indexOf("![["),
+				tokenizer: (src) => {
+					const match = src.match(/^!\[\[([^[\]\n]+?)\]\]/);
+					return match
+						? { type: "inlineEmbed", raw: match[0], ...parseEmbed(match[1]) }
+						: undefined;
+				},
+				renderer: renderEmbed,
+			},
+			{
+				name: "wikiLink",
+				level: "inline",
+				start: (src) => src.indexOf("[["),
+				tokenizer: (src) => {
+					const match = src.match(/^\[\[([^[\]\n]+?)\]\]/);
+					if (!match) {
+						return undefined;
+					}
+					const [link, alias] = match[1].split("|");
+					const { target, subpath } = splitSubpath(link.trim());
+					const heading = subpath?.replace(/^#\^?/, "").replace(/#/g, " › ");
+					return {
+						type: "wikiLink",
+						raw: match[0],
+						text:
+							alias?.trim() ||
+							[target, heading].filter(Boolean).join(" › "),
+					};
+				},
+				renderer: (token) => chalk.blue(token.text),
+			},
+			{
+				name: "hashtag",
+				level: "inline",
+				start: (src) => src.search(/(?<![^\s(])#[\p{L}\p{N}_\-/]/u),
+				tokenizer: (src) => {
+					const match = src.match(/^#[\p{L}\p{N}_\-/]*[\p{L}_\-/][\p{L}\p{N}_\-/]*/u);
+					return match ? { type: "hashtag", raw: match[0] } : undefined;
+				},
+				renderer: (token) => chalk.magenta(token.raw),
+			},
+			{
+				name: "highlight",
+				level: "inline",
+				start: (src) => src.indexOf("=="),
+				tokenizer(src) {
+					const match = src.match(/^==(?=\S)([\s\S]*?\S)==/);
+					return match
+						? {
+								type: "highlight",
+								raw: match[0],
+								tokens: this.lexer.inlineTokens(match[1]),
+							}
+						: undefined;
+				},
+				renderer(token) {
+					return chalk.bgYellow.black(
+						this.parser.parseInline(token.tokens ?? []),
+					);
+				},
+			},
+		],
+		renderer: {
+			code(token) {
+				const lang = token.lang?.trim().toLowerCase();
+				if (lang === "mermaid") {
+					const kind = token.text.trim().split(/\s/)[0] || "diagram";
+					return frame(
+						chalk.magenta,
+						`◇ Mermaid ${kind}`,
+						chalk.gray(token.text),
+						width,
+					);
+				}
+				if (lang === "dataview" || lang === "dataviewjs") {
+					const result = queries.get(token);
+					const body =
+						result instanceof Error
+							? `${chalk.gray(token.text)}\n${chalk.red(result.message)}`
+							: result
+								? formatTable(result.rows, result.columns)
+								: chalk.gray(token.text);
+					return frame(chalk.cyan, "▦ Dataview", body, width);
+				}
+				return false;
+			},
+			image(token) {
+				const found = resolved.get(token);
+				if (found && "problem" in found) {
+					return chalk.yellow(`[image: ${token.href}, ${found.problem}]`);
+				}
+				const name = token.text || path.posix.basename(token.href);
+				return found && "file" in found
+					? attachment("image", name, found.dimensions ? [found.dimensions] : [])
+					: attachment("image", name, [token.href]);
+			},
+		},
+	});
+	return md;
+};
+
+/**
+ * Render a note for the terminal, Obsidian syntax included. Embedded notes
+ * and sections are transcluded up to `maxDepth` levels deep, and an embed
+ * that would include itself is left out; images and other attachments
+ * become placeholders. Dataview `TABLE` blocks are run against the index.
+ */
+export const renderNote = async (
+	index: VaultIndex,
+	relPath: string,
+	options: RenderOptions = {},
+) => {
+	const width = options.width || process.stdout.columns || 80;
+	const maxDepth = options.maxDepth ?? 3;
+	const resolve = createLinkResolver(index.files);
+	const resolved = new Map<Token, Resolved>();
+	const queries = new Map<Token, TableResult | Error>();
+	const md = createMarked(width, resolved, queries);
+
+	const readNote = (file: string) =>
+		fs.readFile(path.join(index.root, file), "utf-8").catch(() => undefined);
+
+	const expandEmbed = async (
+		token: EmbedToken,
+		source: string,
+		chain: string[],
+	) => {
+		const file = resolve(token.target, source);
+		if (!file) {
+			resolved.set(token, { problem: "not found" });
+			return;
+		}
+		if (!file.endsWith(".md")) {
+			resolved.set(token, {
+				file,
+				dimensions: IMAGE.test(file)
+					? await imageDimensions(path.join(index.root, file))
+					: undefined,
+			});
+			return;
+		}
+		if (token.type !== "embed") {
+			return;
+		}
+		const key = `${file}${token.subpath || ""}`;
+		if (chain.includes(key)) {
+			resolved.set(token, { problem: "embeds itself" });
+			return;
+		}
+		if (chain.length > maxDepth) {
+			resolved.set(token, { problem: `nested more than ${maxDepth} deep` });
+			return;
+		}
+		const content = await readNote(file);
+		const section =
+			content === undefined
+				? undefined
+				: extractSection(
+						splitFrontMatter(content)?.rest ?? content,
+						token.subpath,
+					);
+		if (section === undefined) {
+			resolved.set(token, { problem: `not found in ${file}` });
+			return;
+		}
+		const tokens = md.lexer(section);
+		await expand(tokens, file, [...chain, key]);
+		resolved.set(token, { note: file, tokens });
+	};
+
+	const expandImage = async (token: Tokens.Image, source: string) => {
+		if (URL_SCHEME.test(token.href)) {
+			return;
+		}
+		let href = token.href;
+		try {
+			href = decodeURIComponent(href);
+		} catch {}
+		const file = resolve(href, source, "markdown");
+		resolved.set(
+			token,
+			file
+				? { file, dimensions: await imageDimensions(path.join(index.root, file)) }
+				: { problem: "not found" },
+		);
+	};
+
+	const runQuery = async (token: Tokens.Code) => {
+		if (!/^\s*TABLE\b/i.test(token.text)) {
+			return;
+		}
+		try {
+			queries.set(token, await runTableQuery(index, parseTableQuery(token.text)));
+		} catch (error) {
+			if (!(error instanceof QuerySyntaxError)) {
+				throw error;
+			}
+			queries.set(token, error);
+		}
+	};
+
+	/** Look up the embeds, images and queries of lexed tokens, recursively. */
+	const expand = async (
+		tokens: Token[],
+		source: string,
+		chain: string[],
+	): Promise<void> => {
+		const pending: Promise<void>[] = [];
+		md.walkTokens(tokens, (token) => {
+			if (token.type === "embed" || token.type === "inlineEmbed") {
+				pending.push(expandEmbed(token as EmbedToken, source, chain));
+			} else if (token.type === "image") {
+				pending.push(expandImage(token as Tokens.Image, source));
+			} else if (
+				token.type === "code" &&
+				(token as Tokens.Code).lang?.trim() === "dataview"
+			) {
+				pending.push(runQuery(token as Tokens.Code));
+			}
+		});
+		await Promise.all(pending);
+	};
+
+	const content = await readNote(relPath);
+	if (content === undefined) {
+		throw new Error(`Note not found: ${relPath}`);
+	}
+	// Front matter is shown as a YAML block
+	const frontMatter = splitFrontMatter(content);
+	const tokens = md.lexer(
+		frontMatter
+			? `\`\`\`yaml\n${frontMatter.source}\`\`\`\n\n${frontMatter.rest}`
+			: content,
+	);
+	await expand(tokens, relPath, [relPath]);
+	return md.parser(tokens);
+};
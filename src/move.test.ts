@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { expandMove, planMove } from "./move";
+import { rebuildVaultIndex } from "./vault-index";
+
+let root: string;
+
+const writeNote = async (relPath: string, content: string) => {
+	await fs.mkdir(path.dirname(path.join(root, relPath)), { recursive: true });
+	await fs.writeFile(path.join(root, relPath), content);
+};
+
+beforeEach(async () => {
+	root = await fs.mkdtemp(path.join(os.tmpdir(), "multimatter-move-"));
+	await writeNote("Projects/Beta.md", "# Beta\n\nSee [[Alpha]].\n");
+	await writeNote("Projects/Alpha.md", "# Alpha\n");
+	await writeNote("Notes/Index.md", "- [[Beta]]\n- [Beta](../Projects/Beta.md)\n");
+	await fs.mkdir(path.join(root, "Empty"));
+});
+
+afterEach(async () => {
+	await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("expandMove", () => {
+	test("renames a note given without .md", async () => {
+		const index = await rebuildVaultIndex(root);
+		const moves = await expandMove(index, "Projects/Beta", "Projects/Gamma");
+		expect([...moves]).toEqual([
+			[path.join("Projects", "Beta.md"), path.join("Projects", "Gamma.md")],
+		]);
+	});
+
+	test("moves a note into a folder given with a trailing slash", async () => {
+		const index = await rebuildVaultIndex(root);
+		const moves = await expandMove(index, "Projects/Beta.md", "Archive/");
+		expect([...moves]).toEqual([
+			[path.join("Projects", "Beta.md"), path.join("Archive", "Beta.md")],
+		]);
+	});
+
+	test("moves a note into an existing folder", async () => {
+		const index = await rebuildVaultIndex(root);
+		expect([...(await expandMove(index, "Projects/Beta.md", "Notes"))]).toEqual([
+			[path.join("Projects", "Beta.md"), path.join("Notes", "Beta.md")],
+		]);
+		expect([...(await expandMove(index, "Projects/Beta.md", "Empty"))]).toEqual([
+			[path.join("Projects", "Beta.md"), path.join("Empty", "Beta.md")],
+		]);
+	});
+
+	test("moves a folder with everything below it", async () => {
+		const index = await rebuildVaultIndex(root);
+		const moves = await expandMove(index, "Projects", "Archive/Old");
+		expect(new Map(moves)).toEqual(
+			new Map([
+				[path.join("Projects", "Alpha.md"), path.join("Archive", "Old", "Alpha.md")],
+				[path.join("Projects", "Beta.md"), path.join("Archive", "Old", "Beta.md")],
+			]),
+		);
+	});
+
+	test("fails when there is nothing to move", async () => {
+		const index = await rebuildVaultIndex(root);
+		await expect(expandMove(index, "Missing", "Elsewhere")).rejects.toThrow(
+			"Nothing to move at Missing",
+		);
+	});
+});
+
+describe("planMove", () => {
+	test("keeps links pointing at a note moved into a folder", async () => {
+		const index = await rebuildVaultIndex(root);
+		const moves = await expandMove(index, "Projects/Beta.md", "Notes/");
+		const { changes } = await planMove(index, moves);
+		const byPath = new Map(changes.map((change) => [change.path, change]));
+
+		const moved = byPath.get(path.join("Notes", "Beta.md"));
+		expect(moved?.from).toBe(path.join("Projects", "Beta.md"));
+		expect(moved?.after).toBe("# Beta\n\nSee [[Alpha]].\n");
+		expect(byPath.get(path.join("Notes", "Index.md"))?.after).toBe(
+			"- [[Beta]]\n- [Beta](Beta.md)\n",
+		);
+		expect(byPath.has("Notes.md")).toBe(false);
+	});
+
+	test("refuses to overwrite an existing file", async () => {
+		const index = await rebuildVaultIndex(root);
+		const moves = new Map([
+			[path.join("Projects", "Beta.md"), path.join("Projects", "Alpha.md")],
+		]);
+		await expect(planMove(index, moves)).rejects.toThrow("already exists");
+	});
+});
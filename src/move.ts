@@ -0,0 +1,179 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import type { FileChange } from "./changes";
+import {
+	buildLinkGraph,
+	createLinkResolver,
+	formatLink,
+	type ResolvedLink,
+} from "./links";
+import type { VaultIndex } from "./vault-index";
+
+export type MovePlan = {
+	changes: FileChange[];
+	/** Links rewritten in other notes (and in the moved notes themselves). */
+	rewritten: ResolvedLink[];
+};
+
+const toPosix = (relPath: string) => relPath.split(path.sep).join("/");
+
+/** Link path of a file: vault-relative, without `.md` for notes. */
+const linkPath = (file: string) => toPosix(file).replace(/\.md$/i, "");
+
+/** Whether `relPath` is a folder in the vault, with or without notes in it. */
+const isFolder = async (index: VaultIndex, relPath: string) =>
+	relPath === "." ||
+	index.files.some((file) => file.startsWith(relPath + path.sep)) ||
+	(await fs
+		.stat(path.join(index.root, relPath))
+		.then((stats) => stats.isDirectory())
+		.catch(() => false));
+
+/**
+ * The files to move for `from` → `to`. A folder moves every note and
+ * attachment below it; a note may be given without `.md`. When `to` ends
+ * with a slash or is an existing folder, the files move into it.
+ */
+export const expandMove = async (
+	index: VaultIndex,
+	from: string,
+	to: string,
+) => {
+	const source = path.normalize(from).replace(/[\\/]+$/, "");
+	const target = path.normalize(to).replace(/[\\/]+$/, "");
+	const intoFolder = /[\\/]$/.test(to) || (await isFolder(index, target));
+	const inFolder = index.files.filter((file) =>
+		file.startsWith(source + path.sep),
+	);
+	if (inFolder.length > 0) {
+		const folder = intoFolder
+			? path.join(target, path.basename(source))
+			: target;
+		return new Map(
+			inFolder.map((file) => [
+				file,
+				path.join(folder, path.relative(source, file)),
+			]),
+		);
+	}
+	const file = index.files.includes(source) ? source : `${source}.md`;
+	if (!index.files.includes(file)) {
+		throw new Error(`Nothing to move at ${from}`);
+	}
+	if (intoFolder) {
+		return new Map([[file, path.join(target, path.basename(file))]]);
+	}
+	const destination =
+		path.extname(file) === ".md" && path.extname(target) !== ".md"
+			? `${target}.md`
+			: target;
+	return new Map([[file, destination]]);
+};
+
+/**
+ * Plan moving files and rewriting every link that pointed to them. Wiki
+ * links keep a bare name when it still resolves to the moved note and use
+ * the full vault path otherwise; markdown links are written relative to
+ * the linking note. Links inside moved notes are fixed the same way.
+ */
+export const planMove = async (
+	index: VaultIndex,
+	moves: Map<string, string>,
+): Promise<MovePlan> => {
+	for (const [from, to] of moves) {
+		const taken =
+			(index.files.includes(to) && !moves.has(to)) ||
+			(await fs
+				.access(path.join(index.root, to))
+				.then(() => !moves.has(to))
+				.catch(() => false));
+		if (taken) {
+			throw new Error(`Can't move ${from}: ${to} already exists`);
+		}
+	}
+
+	const graph = buildLinkGraph(index);
+	const moved = (file: string) => moves.get(file) ?? file;
+	const resolveAfter = createLinkResolver(index.files.map(moved));
+
+	const changes: FileChange[] = [];
+	const rewritten: ResolvedLink[] = [];
+	const contents = new Map<string, string>();
+	const read = async (file: string) => {
+		const content =
+			contents.get(file) ??
+			(await fs.readFile(path.join(index.root, file), "utf-8"));
+		contents.set(file, content);
+		return content;
+	};
+
+	for (const note of index.notes) {
+		const source = moved(note.path);
+		const edits: { link: ResolvedLink; text: string }[] = [];
+		for (const link of graph.outgoing.get(note.path) || []) {
+			if (!link.resolved || !link.target) {
+				continue;
+			}
+			const destination = moved(link.resolved);
+			if (resolveAfter(link.target, source, link.kind) === destination) {
+				continue;
+			}
+			let target: string;
+			if (link.kind === "markdown") {
+				target = path.posix.relative(
+					path.posix.dirname(toPosix(source)),
+					linkPath(destination),
+				);
+			} else {
+				const name = path.posix.basename(linkPath(destination));
+				target =
+					!link.target.includes("/") &&
+					resolveAfter(name, source) === destination
+						? name
+						: linkPath(destination);
+			}
+			edits.push({ link, text: formatLink(link, target) });
+		}
+		if (edits.length === 0) {
+			continue;
+		}
+
+		const content = await read(note.path);
+		const lines = content.split("\n");
+		// Right to left so earlier columns on the same line stay valid
+		edits.sort(
+			(a, b) => b.link.line - a.link.line || b.link.column - a.link.column,
+		);
+		for (const { link, text } of edits) {
+			const line = lines[link.line - 1];
+			const start = link.column - 1;
+			if (line?.slice(start, start + link.original.length) !== link.original) {
+				throw new Error(
+					`${note.path}:${link.line} changed since it was indexed, run the move again`,
+				);
+			}
+			lines[link.line - 1] =
+				line.slice(0, start) + text + line.slice(start + link.original.length);
+			rewritten.push(link);
+		}
+		contents.set(note.path, lines.join("\n"));
+		if (!moves.has(note.path)) {
+			changes.push({
+				path: note.path,
+				before: content,
+				after: contents.get(note.path),
+			});
+		}
+	}
+
+	for (const [from, to] of moves) {
+		const before = from.endsWith(".md") ? await read(from) : undefined;
+		changes.push({
+			path: to,
+			from,
+			before,
+			after: from.endsWith(".md") ? contents.get(from) : undefined,
+		});
+	}
+	return { changes, rewritten };
+};
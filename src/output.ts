@@ -0,0 +1,71 @@
+import { table } from "table";
+
+export const OUTPUT_FORMATS = ["text", "json", "ndjson", "csv", "table"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+const toCell = (value: unknown): string => {
+	if (value === undefined || value === null) {
+		return "";
+	}
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+	if (Array.isArray(value)) {
+		return value.map(toCell).join(", ");
+	}
+	if (typeof value === "object") {
+		return JSON.stringify(value);
+	}
+	return String(value);
+};
+
+const escapeCsv = (cell: string) =>
+	/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+/** Records as a bordered text table with `columns` as the header row. */
+export const formatTable = <T extends object>(
+	records: T[],
+	columns: (keyof T & string)[],
+) =>
+	table([
+		columns,
+		...records.map((record) => columns.map((column) => toCell(record[column]))),
+	]);
+
+/**
+ * Write records to stdout in the requested format. `columns` fixes the field
+ * order for csv and table output; json and ndjson emit the records as-is.
+ * The "text" format is the human-readable output of each command, so callers
+ * provide it themselves.
+ */
+export const writeRecords = <T extends object>(
+	format: OutputFormat,
+	records: T[],
+	columns: (keyof T & string)[],
+	renderText: () => void,
+) => {
+	switch (format) {
+		case "json":
+			console.log(JSON.stringify(records, null, 2));
+			break;
+		case "ndjson":
+			for (const record of records) {
+				console.log(JSON.stringify(record));
+			}
+			break;
+		case "csv":
+			console.log(columns.join(","));
+			for (const record of records) {
+				console.log(
+					columns.map((column) => escapeCsv(toCell(record[column]))).join(","),
+				);
+			}
+			break;
+		case "table":
+			console.log(formatTable(records, columns));
+			break;
+		default:
+			renderText();
+	}
+};
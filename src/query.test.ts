@@ -0,0 +1,93 @@
+import { describe, expect, test } from "bun:test";
+import * as path from "node:path";
+import { compileQuery, QuerySyntaxError } from "./query";
+import { parseNote } from "./vault-index";
+
+const STATS = { birthtimeMs: 0, ctimeMs: 0, mtimeMs: 0, size: 0 };
+
+const alpha = parseNote(
+	path.join("Work", "Alpha.md"),
+	[
+		"---",
+		"tags: [project/client, active]",
+		"status: active",
+		"Priority: 2",
+		"date: 2024-03-15",
+		"---",
+		"Kickoff with the #team about the roadmap.",
+	].join("\n"),
+	STATS,
+);
+const beta = parseNote(
+	path.join("Personal", "Beta.md"),
+	[
+		"---",
+		"tags: [archived]",
+		"status: done",
+		"priority: 10",
+		"date: 2023-12-01",
+		"---",
+		"Holiday plans.",
+	].join("\n"),
+	STATS,
+);
+const notes = [alpha, beta];
+
+const titles = (source: string) => {
+	const query = compileQuery(source);
+	return notes
+		.filter((note) => query.matches(note, note.content))
+		.map((note) => note.title);
+};
+
+describe("compileQuery", () => {
+	test("matches everything without terms", () => {
+		expect(titles("   ")).toEqual(["Alpha", "Beta"]);
+	});
+
+	test("matches tags with their nested tags", () => {
+		expect(titles("tag:project")).toEqual(["Alpha"]);
+		expect(titles("tag:#project/client")).toEqual(["Alpha"]);
+		expect(titles("tag:proj")).toEqual([]);
+		expect(titles("tag:team")).toEqual(["Alpha"]);
+	});
+
+	test("compares dates, numbers and strings", () => {
+		expect(titles("date>=2024-01-01")).toEqual(["Alpha"]);
+		expect(titles("date<2024")).toEqual(["Beta"]);
+		expect(titles("priority>3")).toEqual(["Beta"]);
+		expect(titles("status=ACTIVE")).toEqual(["Alpha"]);
+		expect(titles("status!=active")).toEqual(["Beta"]);
+	});
+
+	test("matches paths, set fields and content", () => {
+		expect(titles("path:Work/")).toEqual(["Alpha"]);
+		expect(titles("file.folder=Personal")).toEqual(["Beta"]);
+		expect(titles("status:*")).toEqual(["Alpha", "Beta"]);
+		expect(titles("missing:*")).toEqual([]);
+		expect(titles('"holiday plans"')).toEqual(["Beta"]);
+		expect(compileQuery("roadmap").needsContent).toBe(true);
+		expect(compileQuery("status:active").needsContent).toBe(false);
+	});
+
+	test("combines terms with AND, OR, NOT and parentheses", () => {
+		expect(titles("status:active tag:archived")).toEqual([]);
+		expect(titles("status:active OR tag:archived")).toEqual(["Alpha", "Beta"]);
+		expect(titles("-tag:archived")).toEqual(["Alpha"]);
+		expect(titles("NOT (status:done OR priority=2)")).toEqual([]);
+		expect(titles("(status:done OR priority=2) AND date>2024")).toEqual([
+			"Alpha",
+		]);
+	});
+
+	test("reports syntax errors", () => {
+		expect(() => compileQuery('title:"open')).toThrow(QuerySyntaxError);
+		expect(() => compileQuery("(status:done")).toThrow(
+			"Missing closing parenthesis",
+		);
+		expect(() => compileQuery("status:done OR")).toThrow(
+			"Unexpected end of query",
+		);
+		expect(() => compileQuery("status:done )")).toThrow("Unexpected )");
+	});
+});
@@ -0,0 +1,329 @@
+import * as path from "node:path";
+import { normalizeTag } from "./tags";
+import { type Note, noteTags } from "./vault-index";
+
+export class QuerySyntaxError extends Error {}
+
+type Operator = ":" | "=" | "!=" | ">=" | "<=" | ">" | "<";
+
+type Token =
+	| { type: "(" | ")" | "AND" | "OR" | "NOT" }
+	| {
+			type: "term";
+			negated: boolean;
+			field?: string;
+			operator?: Operator;
+			value: string;
+		};
+
+type Expression =
+	| { type: "and" | "or"; left: Expression; right: Expression }
+	| { type: "not"; operand: Expression }
+	| { type: "field"; field: string; operator: Operator; value: string }
+	| { type: "text"; value: string };
+
+export type CompiledQuery = {
+	/** True when the query has full-text terms, so `content` must be passed. */
+	needsContent: boolean;
+	matches: (note: Note, content?: string) => boolean;
+};
+
+const FIELD_TERM = /^([\p{L}\p{N}_.\-]+)(!=|>=|<=|:|=|>|<)(.*)$/u;
+
+const unquote = (value: string) =>
+	/^".*"$/.test(value) ? value.slice(1, -1).replace(/\\"/g, '"') : value;
+
+const tokenize = (source: string) => {
+	const tokens: Token[] = [];
+	let i = 0;
+	while (i < source.length) {
+		const char = source[i];
+		if (/\s/.test(char)) {
+			i++;
+			continue;
+		}
+		if (char === "(" || char === ")") {
+			tokens.push({ type: char });
+			i++;
+			continue;
+		}
+		// A word runs until whitespace or a parenthesis outside quotes
+		let word = "";
+		let quoted = false;
+		while (i < source.length && (quoted || !/[\s()]/.test(source[i]))) {
+			if (source[i] === '"' && source[i - 1] !== "\\") {
+				quoted = !quoted;
+			}
+			word += source[i++];
+		}
+		if (quoted) {
+			throw new QuerySyntaxError(`Unterminated quote in ${word}`);
+		}
+		if (word === "AND" || word === "OR" || word === "NOT") {
+			tokens.push({ type: word });
+			continue;
+		}
+		const negated = word.length > 1 && word.startsWith("-");
+		const term = negated ? word.slice(1) : word;
+		const field = term.match(FIELD_TERM);
+		tokens.push(
+			field
+				? {
+						type: "term",
+						negated,
+						field: field[1].toLowerCase(),
+						operator: field[2] as Operator,
+						value: unquote(field[3]),
+					}
+				: { type: "term", negated, value: unquote(term) },
+		);
+	}
+	return tokens;
+};
+
+const parse = (tokens: Token[]) => {
+	let position = 0;
+	const peek = () => tokens[position];
+
+	const parseOr = (): Expression => {
+		let left = parseAnd();
+		while (peek()?.type === "OR") {
+			position++;
+			left = { type: "or", left, right: parseAnd() };
+		}
+		return left;
+	};
+
+	// Terms next to each other are combined with an implicit AND
+	const parseAnd = (): Expression => {
+		let left = parseUnary();
+		while (peek() && peek().type !== "OR" && peek().type !== ")") {
+			if (peek().type === "AND") {
+				position++;
+			}
+			left = { type: "and", left, right: parseUnary() };
+		}
+		return left;
+	};
+
+	const parseUnary = (): Expression => {
+		const token = tokens[position++];
+		if (!token) {
+			throw new QuerySyntaxError("Unexpected end of query");
+		}
+		if (token.type === "NOT") {
+			return { type: "not", operand: parseUnary() };
+		}
+		if (token.type === "(") {
+			const expression = parseOr();
+			if (tokens[position++]?.type !== ")") {
+				throw new QuerySyntaxError("Missing closing parenthesis");
+			}
+			return expression;
+		}
+		if (token.type !== "term") {
+			throw new QuerySyntaxError(`Unexpected ${token.type}`);
+		}
+		const term: Expression =
+			token.field && token.operator
+				? {
+						type: "field",
+						field: token.field,
+						operator: token.operator,
+						value: token.value,
+					}
+				: { type: "text", value: token.value };
+		return token.negated ? { type: "not", operand: term } : term;
+	};
+
+	const expression = parseOr();
+	if (position < tokens.length) {
+		throw new QuerySyntaxError(`Unexpected ${tokens[position].type}`);
+	}
+	return expression;
+};
+
+const toPosix = (relPath: string) => relPath.split(path.sep).join("/");
+
+/**
+ * Value of a field for a note. `tag`, `path` and the `file.*` fields come
+ * from the index; any other name is a front matter key, matched
+ * case-insensitively.
+ */
+export const fieldValue = (note: Note, field: string): unknown => {
+	switch (field) {
+		case "tag":
+		case "tags":
+		case "file.tags":
+			return noteTags(note);
+		case "path":
+		case "file.path":
+			return toPosix(note.path);
+		case "file.name":
+			return note.title;
+		case "file.folder":
+			return toPosix(path.dirname(note.path));
+		case "file.ctime":
+			return new Date(note.ctimeMs);
+		case "file.mtime":
+			return new Date(note.mtimeMs);
+		case "file.size":
+			return note.size;
+		case "file.outlinks":
+			return note.links.map((link) => link.target);
+	}
+	const key =
+		field in note.attributes
+			? field
+			: Object.keys(note.attributes).find((k) => k.toLowerCase() === field);
+	return key === undefined ? undefined : note.attributes[key];
+};
+
+// `2024`, `2024-03` and `2024-03-01` (optionally with a time) all count
+const isDateLike = (value: unknown) =>
+	value instanceof Date ||
+	(typeof value === "string" &&
+		/^\d{4}(-\d{2}(-\d{2})?)?([T ]|$)/.test(value));
+
+/** Order two values as dates, numbers or strings, whichever both are. */
+export const compareValues = (a: unknown, b: unknown) => {
+	if (isDateLike(a) && isDateLike(b)) {
+		return (
+			new Date(a as string | Date).getTime() -
+			new Date(b as string | Date).getTime()
+		);
+	}
+	if (
+		a !== "" &&
+		b !== "" &&
+		!Number.isNaN(Number(a)) &&
+		!Number.isNaN(Number(b))
+	) {
+		return Number(a) - Number(b);
+	}
+	return String(a).localeCompare(String(b), undefined, {
+		sensitivity: "base",
+	});
+};
+
+const isEmpty = (value: unknown) =>
+	value === undefined ||
+	value === null ||
+	value === "" ||
+	(Array.isArray(value) && value.length === 0);
+
+const testScalar = (
+	field: string,
+	operator: Operator,
+	actual: unknown,
+	expected: string,
+) => {
+	if (actual === undefined || actual === null) {
+		return false;
+	}
+	switch (operator) {
+		case ":": {
+			if (field === "tag" || field === "tags" || field === "file.tags") {
+				const tag = String(actual).toLowerCase();
+				const wanted = normalizeTag(expected).toLowerCase();
+				return tag === wanted || tag.startsWith(`${wanted}/`);
+			}
+			const text =
+				actual instanceof Date ? actual.toISOString() : String(actual);
+			return text.toLowerCase().includes(expected.toLowerCase());
+		}
+		case "=":
+			return compareValues(actual, expected) === 0;
+		case ">=":
+			return compareValues(actual, expected) >= 0;
+		case "<=":
+			return compareValues(actual, expected) <= 0;
+		case ">":
+			return compareValues(actual, expected) > 0;
+		case "<":
+			return compareValues(actual, expected) < 0;
+		default:
+			return false;
+	}
+};
+
+const testField = (
+	note: Note,
+	field: string,
+	operator: Operator,
+	expected: string,
+): boolean => {
+	const actual = fieldValue(note, field);
+	if (operator === ":" && expected === "*") {
+		return !isEmpty(actual);
+	}
+	if (operator === "!=") {
+		return !testField(note, field, "=", expected);
+	}
+	const values = Array.isArray(actual) ? actual : [actual];
+	return values.some((value) => testScalar(field, operator, value, expected));
+};
+
+const evaluate = (
+	expression: Expression,
+	note: Note,
+	content: string,
+): boolean => {
+	switch (expression.type) {
+		case "and":
+			return (
+				evaluate(expression.left, note, content) &&
+				evaluate(expression.right, note, content)
+			);
+		case "or":
+			return (
+				evaluate(expression.left, note, content) ||
+				evaluate(expression.right, note, content)
+			);
+		case "not":
+			return !evaluate(expression.operand, note, content);
+		case "field":
+			return testField(
+				note,
+				expression.field,
+				expression.operator,
+				expression.value,
+			);
+		case "text":
+			return content.toLowerCase().includes(expression.value.toLowerCase());
+	}
+};
+
+const hasText = (expression: Expression): boolean => {
+	switch (expression.type) {
+		case "and":
+		case "or":
+			return hasText(expression.left) || hasText(expression.right);
+		case "not":
+			return hasText(expression.operand);
+		default:
+			return expression.type === "text";
+	}
+};
+
+/**
+ * Compile a metadata query such as
+ * `tag:project AND status=active AND date>=2024-01-01 AND path:Work/ -tag:archived`.
+ *
+ * - `field:value` matches when the value contains `value` (`tag:` also
+ *   matches nested tags, `field:*` when the field is set)
+ * - `=`, `!=`, `>=`, `<=`, `>`, `<` compare as dates, numbers or strings
+ * - bare words and `"quoted phrases"` search the note content
+ * - terms combine with `AND` (implicit), `OR`, `NOT`/`-` and parentheses
+ */
+export const compileQuery = (source: string): CompiledQuery => {
+	const tokens = tokenize(source);
+	if (tokens.length === 0) {
+		return { needsContent: false, matches: () => true };
+	}
+	const expression = parse(tokens);
+	return {
+		needsContent: hasText(expression),
+		matches: (note, content = "") => evaluate(expression, note, content),
+	};
+};
@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	type LintSchema,
+	lintNote,
+	loadSchema,
+	rulesFor,
+	SchemaError,
+	schemaPath,
+} from "./schema";
+
+const schema: LintSchema = [
+	{
+		glob: "**/*.md",
+		fields: {
+			title: { type: "string", required: true },
+			status: { enum: ["active", "done"] },
+		},
+	},
+	{
+		glob: "Projects/**",
+		fields: {
+			title: { type: "string", regex: "^[A-Z]" },
+			due: { type: "date", format: "YYYY-MM-DD" },
+			tags: { type: "list", default: ["project"] },
+			priority: { type: "number" },
+		},
+	},
+];
+
+const note = (...lines: string[]) => ["---", ...lines, "---", "Body"].join("\n");
+
+describe("rulesFor", () => {
+	test("merges every matching glob, later globs winning per field", () => {
+		expect(rulesFor(schema, "Inbox.md")).toEqual(schema[0].fields);
+		expect(rulesFor(schema, path.join("Projects", "Alpha.md"))).toEqual({
+			title: { type: "string", regex: "^[A-Z]" },
+			status: { enum: ["active", "done"] },
+			due: { type: "date", format: "YYYY-MM-DD" },
+			tags: { type: "list", default: ["project"] },
+			priority: { type: "number" },
+		});
+		expect(rulesFor(schema, "image.png")).toEqual({});
+	});
+});
+
+describe("lintNote", () => {
+	const lint = (file: string, content: string) =>
+		lintNote(schema, file, content).map(({ field, line, message, fix }) => ({
+			field,
+			line,
+			message,
+			fix,
+		}));
+
+	test("passes notes that follow their rules", () => {
+		expect(lint("Inbox.md", note("title: Inbox", "status: done"))).toEqual([]);
+		expect(lint("image.png", "")).toEqual([]);
+	});
+
+	test("reports missing and empty fields on their line", () => {
+		expect(lint("Inbox.md", note("status: active"))).toEqual([
+			{ field: "title", line: 1, message: "is required", fix: undefined },
+		]);
+		expect(lint("Inbox.md", note("status: active", "title:"))).toEqual([
+			{ field: "title", line: 3, message: "must not be empty", fix: undefined },
+		]);
+	});
+
+	test("checks types, values, patterns and date formats", () => {
+		const file = path.join("Projects", "Alpha.md");
+		expect(
+			lint(
+				file,
+				note(
+					"title: alpha",
+					"status: paused",
+					"due: 05/01/2024",
+					"tags: [a]",
+					'priority: "high"',
+				),
+			),
+		).toEqual([
+			{ field: "title", line: 2, message: "must match /^[A-Z]/", fix: undefined },
+			{
+				field: "status",
+				line: 3,
+				message: "must be one of active, done",
+				fix: undefined,
+			},
+			{
+				field: "due",
+				line: 4,
+				message: "must be a date (YYYY-MM-DD)",
+				fix: undefined,
+			},
+			{ field: "priority", line: 6, message: "must be a number", fix: undefined },
+		]);
+	});
+
+	test("offers fixes for defaults and single values in lists", () => {
+		const file = path.join("Projects", "Alpha.md");
+		expect(lint(file, note("title: Alpha"))).toEqual([
+			{
+				field: "tags",
+				line: 1,
+				message: "is required",
+				fix: { value: ["project"] },
+			},
+		]);
+		expect(lint(file, note("title: Alpha", "tags: solo"))).toEqual([
+			{
+				field: "tags",
+				line: 3,
+				message: "must be a list",
+				fix: { value: ["solo"] },
+			},
+		]);
+	});
+
+	test("reports invalid front matter instead of field rules", () => {
+		const [violation, ...rest] = lint("Inbox.md", note("title: A", "title: B"));
+		expect(rest).toEqual([]);
+		expect(violation).toMatchObject({ field: "", line: 3 });
+		expect(violation.message).toStartWith("invalid front matter: ");
+	});
+});
+
+describe("loadSchema", () => {
+	let root: string;
+
+	const writeSchema = async (source: string) => {
+		await fs.mkdir(path.dirname(schemaPath(root)), { recursive: true });
+		await fs.writeFile(schemaPath(root), source);
+	};
+
+	beforeEach(async () => {
+		root = await fs.mkdtemp(path.join(os.tmpdir(), "multimatter-schema-"));
+	});
+
+	afterEach(async () => {
+		await fs.rm(root, { recursive: true, force: true });
+	});
+
+	test("is undefined without a schema file", async () => {
+		expect(await loadSchema(root)).toBeUndefined();
+	});
+
+	test("reads globs in file order", async () => {
+		await writeSchema(
+			'"**/*.md":\n  title: { required: true }\n"Daily/**":\n  date: { type: date }\n',
+		);
+		expect(await loadSchema(root)).toEqual([
+			{ glob: "**/*.md", fields: { title: { required: true } } },
+			{ glob: "Daily/**", fields: { date: { type: "date" } } },
+		]);
+	});
+
+	test("rejects unknown rules, types and bad patterns", async () => {
+		await writeSchema('"**":\n  title: { kind: string }\n');
+		await expect(loadSchema(root)).rejects.toThrow(SchemaError);
+		await writeSchema('"**":\n  title: { type: text }\n');
+		await expect(loadSchema(root)).rejects.toThrow("**.title.type");
+		await writeSchema('"**":\n  title: { regex: "[" }\n');
+		await expect(loadSchema(root)).rejects.toThrow("**.title.regex");
+	});
+});
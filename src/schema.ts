@@ -0,0 +1,250 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import ignore from "ignore";
+import * as yaml from "yaml";
+import { z } from "zod";
+import { parseFrontMatter } from "./frontmatter";
+
+/** The schema file itself is invalid. */
+export class SchemaError extends Error {}
+
+export const FIELD_TYPES = [
+	"string",
+	"number",
+	"boolean",
+	"date",
+	"list",
+] as const;
+
+const scalar = z.union([z.string(), z.number(), z.boolean()]);
+
+const fieldRuleSchema = z
+	.object({
+		type: z.enum(FIELD_TYPES).optional(),
+		/** Present and not empty. */
+		required: z.boolean().optional(),
+		/** Allowed values; for lists, allowed items. */
+		enum: z.array(scalar).optional(),
+		/** Pattern for string values or list items. */
+		regex: z.string().optional(),
+		/** Date format such as `YYYY-MM-DD` or `YYYY-MM-DDTHH:mm`. */
+		format: z.string().optional(),
+		/** Expected field, written by `lint --fix` when it's missing. */
+		default: z.unknown().optional(),
+	})
+	.strict();
+
+// Globs mapped to field rules; a note gets the rules of every matching glob
+const schemaFileSchema = z.record(
+	z.string(),
+	z.record(z.string(), fieldRuleSchema),
+);
+
+export type FieldRule = z.infer<typeof fieldRuleSchema>;
+
+export type LintSchema = { glob: string; fields: Record<string, FieldRule> }[];
+
+export type Violation = {
+	path: string;
+	/** 1-based line of the field, or of the front matter when it's missing. */
+	line: number;
+	field: string;
+	message: string;
+	/** Value that `--fix` writes to the field. */
+	fix?: { value: unknown };
+};
+
+export const schemaPath = (root: string) =>
+	path.join(root, ".multimatter", "schema.yaml");
+
+/** Load `.multimatter/schema.yaml`, or undefined when the vault has none. */
+export const loadSchema = async (
+	root: string,
+): Promise<LintSchema | undefined> => {
+	let source: string;
+	try {
+		source = await fs.readFile(schemaPath(root), "utf-8");
+	} catch {
+		return undefined;
+	}
+	let parsed: ReturnType<typeof schemaFileSchema.safeParse>;
+	try {
+		parsed = schemaFileSchema.safeParse(yaml.parse(source) ?? {});
+	} catch (error) {
+		throw new SchemaError(
+			`${path.relative(root, schemaPath(root))}: ${(error as Error).message.split("\n")[0]}`,
+		);
+	}
+	if (!parsed.success) {
+		const issue = parsed.error.issues[0];
+		throw new SchemaError(
+			`${path.relative(root, schemaPath(root))}: ${issue.path.join(".")}: ${issue.message}`,
+		);
+	}
+	for (const [glob, fields] of Object.entries(parsed.data)) {
+		for (const [field, rule] of Object.entries(fields)) {
+			try {
+				// Fail on the config rather than on the first note
+				new RegExp(rule.regex || "");
+			} catch (error) {
+				throw new SchemaError(
+					`${path.relative(root, schemaPath(root))}: ${glob}.${field}.regex: ${(error as Error).message}`,
+				);
+			}
+		}
+	}
+	return Object.entries(parsed.data).map(([glob, fields]) => ({
+		glob,
+		fields,
+	}));
+};
+
+const escapeRegExp = (text: string) =>
+	text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const DATE_TOKENS: Record<string, string> = {
+	YYYY: "\\d{4}",
+	MM: "(0[1-9]|1[0-2])",
+	DD: "(0[1-9]|[12]\\d|3[01])",
+	HH: "([01]\\d|2[0-3])",
+	mm: "[0-5]\\d",
+	ss: "[0-5]\\d",
+};
+
+/** A date format like `YYYY-MM-DD` as a regular expression. */
+const dateFormatPattern = (format: string) =>
+	new RegExp(
+		`^${format
+			.split(/(YYYY|MM|DD|HH|mm|ss)/)
+			.map((part) => DATE_TOKENS[part] ?? escapeRegExp(part))
+			.join("")}$`,
+	);
+
+// ISO dates with an optional time when no format is given
+export const ISO_DATE = /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const isEmpty = (value: unknown) =>
+	value === undefined ||
+	value === null ||
+	value === "" ||
+	(Array.isArray(value) && value.length === 0);
+
+/** The zod schema of one field, applied to the value of the key. */
+const fieldSchema = (rule: FieldRule) => {
+	const item = (schema: z.ZodType) => {
+		let checked = schema;
+		if (rule.enum) {
+			const allowed = rule.enum;
+			checked = checked.refine((value) => allowed.includes(value as never), {
+				message: `must be one of ${allowed.join(", ")}`,
+			});
+		}
+		if (rule.regex) {
+			const pattern = new RegExp(rule.regex);
+			checked = checked.refine((value) => pattern.test(String(value)), {
+				message: `must match /${rule.regex}/`,
+			});
+		}
+		return checked;
+	};
+
+	let schema: z.ZodType;
+	switch (rule.type) {
+		case "string":
+			schema = item(z.string({ error: "must be a string" }));
+			break;
+		case "number":
+			schema = item(z.number({ error: "must be a number" }));
+			break;
+		case "boolean":
+			schema = item(z.boolean({ error: "must be true or false" }));
+			break;
+		case "date": {
+			const pattern = rule.format ? dateFormatPattern(rule.format) : ISO_DATE;
+			schema = item(
+				z
+					.string({ error: `must be a date (${rule.format || "YYYY-MM-DD"})` })
+					.regex(pattern, `must be a date (${rule.format || "YYYY-MM-DD"})`),
+			);
+			break;
+		}
+		case "list":
+			schema = z.array(item(scalar), { error: "must be a list" });
+			break;
+		default:
+			schema = item(z.unknown());
+	}
+	return schema;
+};
+
+/** The rules for a note: every matching glob, later globs winning per field. */
+export const rulesFor = (schema: LintSchema, relPath: string) => {
+	const posixPath = relPath.split(path.sep).join("/");
+	const fields: Record<string, FieldRule> = {};
+	for (const { glob, fields: globFields } of schema) {
+		if (ignore().add(glob).ignores(posixPath)) {
+			Object.assign(fields, globFields);
+		}
+	}
+	return fields;
+};
+
+/**
+ * Check the front matter of a note against the schema. Missing fields with
+ * a `default` and single values where a list is expected can be fixed.
+ */
+export const lintNote = (
+	schema: LintSchema,
+	relPath: string,
+	content: string,
+): Violation[] => {
+	const fields = rulesFor(schema, relPath);
+	if (Object.keys(fields).length === 0) {
+		return [];
+	}
+	const frontMatter = parseFrontMatter(content);
+	if (frontMatter.errors.length > 0) {
+		return frontMatter.errors.map((error) => ({
+			path: relPath,
+			line: error.line,
+			field: "",
+			message: `invalid front matter: ${error.message}`,
+		}));
+	}
+
+	const violations: Violation[] = [];
+	for (const [field, rule] of Object.entries(fields)) {
+		const value = frontMatter.data[field];
+		const line = frontMatter.lines.get(field) ?? 1;
+		if (isEmpty(value)) {
+			// A default implies the field should be there
+			if (rule.required || rule.default !== undefined) {
+				violations.push({
+					path: relPath,
+					line,
+					field,
+					message: value === undefined ? "is required" : "must not be empty",
+					fix:
+						rule.default === undefined ? undefined : { value: rule.default },
+				});
+			}
+			continue;
+		}
+		const result = fieldSchema(rule).safeParse(value);
+		if (!result.success) {
+			violations.push({
+				path: relPath,
+				line,
+				field,
+				message: result.error.issues[0].message,
+				fix:
+					rule.type === "list" &&
+					!Array.isArray(value) &&
+					fieldSchema(rule).safeParse([value]).success
+						? { value: [value] }
+						: undefined,
+			});
+		}
+	}
+	return violations;
+};
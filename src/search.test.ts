@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { SearchPatternError, searchNotes } from "./search";
+import { rebuildVaultIndex } from "./vault-index";
+
+let root: string;
+let bin: string;
+const savedPath = process.env.PATH;
+
+const writeNote = async (relPath: string, content: string) => {
+	await fs.mkdir(path.dirname(path.join(root, relPath)), { recursive: true });
+	await fs.writeFile(path.join(root, relPath), content);
+};
+
+const search = async (query: string, options = {}) =>
+	searchNotes(await rebuildVaultIndex(root), query, options);
+
+beforeEach(async () => {
+	root = await fs.mkdtemp(path.join(os.tmpdir(), "multimatter-search-"));
+	// Without rg on the PATH the TypeScript fallback runs
+	bin = await fs.mkdtemp(path.join(os.tmpdir(), "multimatter-bin-"));
+	process.env.PATH = bin;
+	await writeNote(
+		"Trip.md",
+		["# Trip", "Café in Köln", "", "more", "café again, CAFÉ"].join("\n"),
+	);
+	await writeNote(path.join("Work", "Plan.md"), "a.b and axb\r\nnothing\r\n");
+});
+
+afterEach(async () => {
+	process.env.PATH = savedPath;
+	await fs.rm(root, { recursive: true, force: true });
+	await fs.rm(bin, { recursive: true, force: true });
+});
+
+describe("searchNotes without rg", () => {
+	test("finds matches case-insensitively with character columns", async () => {
+		const results = await search("café");
+		expect([...results.keys()]).toEqual(["Trip.md"]);
+		expect(results.get("Trip.md")).toEqual([
+			{
+				line: 2,
+				column: 1,
+				text: "Café in Köln",
+				submatches: [{ start: 0, end: 4 }],
+				before: [],
+				after: [],
+			},
+			{
+				line: 5,
+				column: 1,
+				text: "café again, CAFÉ",
+				submatches: [
+					{ start: 0, end: 4 },
+					{ start: 12, end: 16 },
+				],
+				before: [],
+				after: [],
+			},
+		]);
+	});
+
+	test("adds context lines around matches", async () => {
+		const matches = (await search("caf", { context: 1 })).get("Trip.md");
+		expect(matches?.[0]).toMatchObject({ before: ["# Trip"], after: [""] });
+		expect(matches?.[1]).toMatchObject({ before: ["more"], after: [] });
+	});
+
+	test("honours case sensitivity and fixed strings", async () => {
+		const lines = async (query: string, options = {}) =>
+			[...(await search(query, options)).values()]
+				.flat()
+				.map((match) => match.text);
+		expect(await lines("CAFÉ", { caseSensitive: true })).toEqual([
+			"café again, CAFÉ",
+		]);
+		expect(await lines("a.b")).toEqual(["a.b and axb"]);
+		expect(
+			(await search("a.b", { fixedStrings: true }))
+				.get(path.join("Work", "Plan.md"))?.[0].submatches,
+		).toEqual([{ start: 0, end: 3 }]);
+	});
+
+	test("rejects invalid regular expressions", async () => {
+		await expect(search("(open")).rejects.toThrow(SearchPatternError);
+		expect((await search("(open", { fixedStrings: true })).size).toBe(0);
+	});
+});
+
+describe("searchNotes with rg", () => {
+	test("leaves pattern checks to rg", async () => {
+		// JavaScript rejects the inline flag; only rg's verdict counts
+		await fs.writeFile(
+			path.join(bin, "rg"),
+			"#!/bin/sh\necho 'regex parse error:' >&2\necho 'error: unclosed group' >&2\nexit 2\n",
+			{ mode: 0o755 },
+		);
+		await expect(search("(?i)(open")).rejects.toThrow(
+			"Invalid regular expression: unclosed group",
+		);
+		await fs.writeFile(path.join(bin, "rg"), "#!/bin/sh\nexit 1\n", {
+			mode: 0o755,
+		});
+		expect((await search("(?i)café")).size).toBe(0);
+	});
+});
@@ -0,0 +1,268 @@
+import { spawn } from "node:child_process";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import chalk from "chalk";
+import type { VaultIndex } from "./vault-index";
+
+export type SearchOptions = {
+	/** Lines of context before and after each match. */
+	context?: number;
+	caseSensitive?: boolean;
+	/** Treat the query as a literal string instead of a regular expression. */
+	fixedStrings?: boolean;
+};
+
+export type SearchMatch = {
+	/** 1-based line number. */
+	line: number;
+	/** 1-based column of the first submatch, in characters. */
+	column: number;
+	text: string;
+	/** Character ranges of every match on the line. */
+	submatches: { start: number; end: number }[];
+	before: string[];
+	after: string[];
+};
+
+type RgLine = {
+	path?: { text?: string };
+	lines?: { text?: string };
+	line_number?: number;
+	submatches?: { start: number; end: number }[];
+};
+
+type RgEvent = {
+	type: "begin" | "match" | "context" | "end" | "summary";
+	data: RgLine;
+};
+
+class RipgrepMissingError extends Error {}
+
+/** The query isn't a valid regular expression. */
+export class SearchPatternError extends Error {}
+
+const trimEol = (text: string) => text.replace(/\r?\n$/, "");
+
+/** rg reports byte offsets; convert them to string indices. */
+const toCharIndex = (text: string, byteOffset: number) =>
+	Buffer.from(text).subarray(0, byteOffset).toString().length;
+
+/**
+ * Collects match and context lines per file in order. Context lines are
+ * attached to the previous match when close enough, and kept as the `before`
+ * context of the next one.
+ */
+const createCollector = (context: number) => {
+	const results = new Map<string, SearchMatch[]>();
+	const pending = new Map<string, { line: number; text: string }[]>();
+
+	return {
+		results,
+		match: (file: string, match: Omit<SearchMatch, "before" | "after">) => {
+			const matches = results.get(file) || [];
+			const before = (pending.get(file) || [])
+				.filter((entry) => entry.line >= match.line - context)
+				.map((entry) => entry.text);
+			matches.push({ ...match, before, after: [] });
+			results.set(file, matches);
+			pending.set(file, []);
+		},
+		context: (file: string, line: number, text: string) => {
+			const previous = results.get(file)?.at(-1);
+			if (previous && line - previous.line <= context) {
+				previous.after.push(text);
+			}
+			pending.set(file, [...(pending.get(file) || []), { line, text }]);
+		},
+	};
+};
+
+const searchWithRipgrep = (
+	index: VaultIndex,
+	query: string,
+	options: SearchOptions,
+) =>
+	new Promise<Map<string, SearchMatch[]>>((resolve, reject) => {
+		const context = options.context || 0;
+		const args = [
+			"--json",
+			// The index decides which notes are searched, not .gitignore or dotfiles
+			"--no-ignore",
+			"--hidden",
+			options.caseSensitive ? "--case-sensitive" : "--ignore-case",
+			...(options.fixedStrings ? ["--fixed-strings"] : []),
+			...(context > 0 ? ["--context", String(context)] : []),
+			"--glob",
+			"*.md",
+			...index.rules.rgGlobs.flatMap((glob) => ["--glob", glob]),
+			"--regexp",
+			query,
+			".",
+		];
+		// Run from the vault root so the globs match vault-relative paths
+		const child = spawn("rg", args, { cwd: index.root });
+		const collector = createCollector(context);
+		let buffer = "";
+		let stderr = "";
+
+		const handleLine = (line: string) => {
+			if (!line) {
+				return;
+			}
+			const event: RgEvent = JSON.parse(line);
+			const file = event.data.path?.text;
+			const text = event.data.lines?.text;
+			const lineNumber = event.data.line_number;
+			// Paths or lines that aren't valid UTF-8 arrive base64 encoded; skip them
+			if (!file || text === undefined || lineNumber === undefined) {
+				return;
+			}
+			const relPath = path.normalize(file);
+			if (event.type === "match") {
+				const submatches = (event.data.submatches || []).map((submatch) => ({
+					start: toCharIndex(text, submatch.start),
+					end: toCharIndex(text, submatch.end),
+				}));
+				collector.match(relPath, {
+					line: lineNumber,
+					column: (submatches[0]?.start || 0) + 1,
+					text: trimEol(text),
+					submatches,
+				});
+			} else if (event.type === "context") {
+				collector.context(relPath, lineNumber, trimEol(text));
+			}
+		};
+
+		child.stdout.setEncoding("utf8");
+		child.stdout.on("data", (chunk: string) => {
+			buffer += chunk;
+			const lines = buffer.split("\n");
+			buffer = lines.pop() || "";
+			lines.forEach(handleLine);
+		});
+		child.stderr.on("data", (chunk) => {
+			stderr += chunk;
+		});
+		child.on("error", (error: NodeJS.ErrnoException) => {
+			reject(error.code === "ENOENT" ? new RipgrepMissingError() : error);
+		});
+		child.on("close", (code) => {
+			handleLine(buffer);
+			// rg exits with 1 when nothing matched
+			if (code === 0 || code === 1) {
+				resolve(collector.results);
+			} else if (/regex parse error/.test(stderr)) {
+				// rg's regex syntax differs from JavaScript's in a few places
+				const reason = stderr.match(/^error: (.*)$/m)?.[1] || stderr.trim();
+				reject(new SearchPatternError(`Invalid regular expression: ${reason}`));
+			} else {
+				reject(new Error(stderr.trim() || `rg exited with code ${code}`));
+			}
+		});
+	});
+
+const escapeRegExp = (text: string) =>
+	text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const compilePattern = (query: string, options: SearchOptions) => {
+	try {
+		return new RegExp(
+			options.fixedStrings ? escapeRegExp(query) : query,
+			options.caseSensitive ? "gu" : "giu",
+		);
+	} catch (error) {
+		const reason = (error as Error).message.replace(
+			/^Invalid regular expression:\s*/,
+			"",
+		);
+		throw new SearchPatternError(`Invalid regular expression: ${reason}`);
+	}
+};
+
+/** Used when `rg` isn't installed; searches the indexed notes line by line. */
+const searchWithFallback = async (
+	index: VaultIndex,
+	query: string,
+	options: SearchOptions,
+) => {
+	const context = options.context || 0;
+	const pattern = compilePattern(query, options);
+	const collector = createCollector(context);
+
+	for (const note of index.notes) {
+		const content = await fs.readFile(
+			path.join(index.root, note.path),
+			"utf-8",
+		);
+		const lines = content.split(/\r?\n/);
+		const submatchesPerLine = lines.map((text) =>
+			Array.from(text.matchAll(pattern))
+				.filter((match) => match[0].length > 0)
+				.map((match) => ({
+					start: match.index || 0,
+					end: (match.index || 0) + match[0].length,
+				})),
+		);
+		const matchLines = submatchesPerLine.flatMap((submatches, i) =>
+			submatches.length > 0 ? [i] : [],
+		);
+
+		lines.forEach((text, i) => {
+			const submatches = submatchesPerLine[i];
+			if (submatches.length > 0) {
+				collector.match(note.path, {
+					line: i + 1,
+					column: submatches[0].start + 1,
+					text,
+					submatches,
+				});
+			} else if (matchLines.some((line) => Math.abs(line - i) <= context)) {
+				collector.context(note.path, i + 1, text);
+			}
+		});
+	}
+	return collector.results;
+};
+
+/**
+ * Search the indexed notes for a regular expression. Uses `rg --json` when
+ * it's installed and falls back to a TypeScript implementation otherwise.
+ * Results are keyed by vault-relative path; notes outside the index are
+ * dropped so ignore rules apply like in every other command. Throws a
+ * `SearchPatternError` when the engine that runs can't parse the pattern.
+ */
+export const searchNotes = async (
+	index: VaultIndex,
+	query: string,
+	options: SearchOptions = {},
+) => {
+	let results: Map<string, SearchMatch[]>;
+	try {
+		results = await searchWithRipgrep(index, query, options);
+	} catch (error) {
+		if (!(error instanceof RipgrepMissingError)) {
+			throw error;
+		}
+		results = await searchWithFallback(index, query, options);
+	}
+	for (const file of results.keys()) {
+		if (!index.byPath.has(file)) {
+			results.delete(file);
+		}
+	}
+	return results;
+};
+
+/** The match line with every submatch highlighted. */
+export const highlightMatch = (match: SearchMatch) => {
+	let result = "";
+	let last = 0;
+	for (const { start, end } of match.submatches) {
+		result +=
+			match.text.slice(last, start) +
+			chalk.black.bgYellow(match.text.slice(start, end));
+		last = end;
+	}
+	return result + match.text.slice(last);
+};
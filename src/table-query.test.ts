@@ -0,0 +1,211 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { QuerySyntaxError } from "./query";
+import { parseTableQuery, runTableQuery } from "./table-query";
+import { parseNote, rebuildVaultIndex } from "./vault-index";
+
+const STATS = { birthtimeMs: 0, ctimeMs: 0, mtimeMs: 0, size: 0 };
+
+const note = (file: string, frontMatter: string) =>
+	parseNote(file, `---\n${frontMatter}\n---\n`, STATS);
+
+describe("parseTableQuery", () => {
+	test("reads columns, headers and clauses in any case", () => {
+		const query = parseTableQuery(
+			'table WITHOUT ID status, length(tags) AS "Tag count", file.mtime as Modified sort Status desc, title limit 5',
+		);
+		expect(query.withId).toBe(false);
+		expect(query.columns).toEqual([
+			{ header: "status", field: "status", length: false },
+			{ header: "Tag count", field: "tags", length: true },
+			{ header: "Modified", field: "file.mtime", length: false },
+		]);
+		expect(
+			query.sort.map(({ column, descending }) => [column.field, descending]),
+		).toEqual([
+			["status", true],
+			["title", false],
+		]);
+		expect(query.limit).toBe(5);
+		expect(parseTableQuery("").columns).toEqual([]);
+	});
+
+	test("keeps keywords inside quotes", () => {
+		const { columns, where } = parseTableQuery(
+			'TABLE x AS "Sort by" WHERE title = "From here"',
+		);
+		expect(columns[0].header).toBe("Sort by");
+		expect(where?.matches(note("a.md", "title: From here"))).toBe(true);
+	});
+
+	test("selects folders and nested tags with AND, OR and -", () => {
+		const notes = [
+			note(path.join("Projects", "A.md"), "tags: [work/client]"),
+			note(path.join("Projects", "Old", "B.md"), "tags: [archived]"),
+			note("Projects.md", "tags: [work]"),
+			note("C.md", "tags: [home]"),
+		];
+		const selected = (source: string) => {
+			const { from } = parseTableQuery(`TABLE FROM ${source}`);
+			return notes
+				.filter((candidate) => from?.(candidate))
+				.map((candidate) => candidate.path);
+		};
+		expect(selected('"Projects"')).toEqual([
+			path.join("Projects", "A.md"),
+			path.join("Projects", "Old", "B.md"),
+			"Projects.md",
+		]);
+		expect(selected('"Projects/" AND -#archived')).toEqual([
+			path.join("Projects", "A.md"),
+			"Projects.md",
+		]);
+		expect(selected("#work OR #home")).toEqual([
+			path.join("Projects", "A.md"),
+			"Projects.md",
+			"C.md",
+		]);
+	});
+
+	test("rewrites Dataview expressions into the query syntax", () => {
+		const notes = [
+			note("a.md", "status: active\npriority: 3\ntags: [x]"),
+			note("b.md", "status: done\npriority: 1"),
+		];
+		const matching = (where: string) => {
+			const query = parseTableQuery(`TABLE WHERE ${where}`);
+			return notes
+				.filter((candidate) => query.where?.matches(candidate))
+				.map((candidate) => candidate.path);
+		};
+		expect(matching('status = "active" and priority > 2')).toEqual(["a.md"]);
+		expect(matching('status != "active" || priority >= 3')).toEqual([
+			"a.md",
+			"b.md",
+		]);
+		expect(matching("!contains(tags, x)")).toEqual(["b.md"]);
+	});
+
+	test("reports clauses out of order or repeated and bad parts", () => {
+		expect(() => parseTableQuery("TABLE x LIMIT 2 WHERE y = 1")).toThrow(
+			"Clauses must come in the order TABLE, FROM, WHERE, SORT, LIMIT",
+		);
+		expect(() => parseTableQuery("TABLE x SORT a SORT b")).toThrow(
+			"Unexpected SORT",
+		);
+		expect(() => parseTableQuery("TABLE WITHOUT ID")).toThrow(QuerySyntaxError);
+		expect(() => parseTableQuery("TABLE a b")).toThrow("Invalid column: a b");
+		expect(() => parseTableQuery("TABLE FROM Projects")).toThrow(
+			"Invalid source: Projects",
+		);
+		expect(() => parseTableQuery("TABLE x LIMIT ten")).toThrow(
+			'LIMIT must be a number, got "ten"',
+		);
+	});
+
+	test("resolves date keywords against now", () => {
+		const notes = ["2024-05-09", "2024-05-10", "2024-05-11"].map((due) =>
+			note(`${due}.md`, `due: ${due}`),
+		);
+		const now = new Date(2024, 4, 10, 12, 30);
+		const matching = (source: string) => {
+			const { where } = parseTableQuery(source, now);
+			return notes
+				.filter((candidate) => where?.matches(candidate))
+				.map((candidate) => candidate.path);
+		};
+		expect(matching("TABLE due WHERE due < date(today)")).toEqual([
+			"2024-05-09.md",
+		]);
+		expect(matching("TABLE due WHERE due = date(Yesterday)")).toEqual([
+			"2024-05-09.md",
+		]);
+		expect(matching("TABLE due WHERE due >= date(tomorrow)")).toEqual([
+			"2024-05-11.md",
+		]);
+		expect(matching("TABLE due WHERE due < date(now)")).toEqual([
+			"2024-05-09.md",
+			"2024-05-10.md",
+		]);
+		expect(matching('TABLE due WHERE due = date("2024-05-10")')).toEqual([
+			"2024-05-10.md",
+		]);
+	});
+
+	test("rejects dates it can't resolve", () => {
+		expect(() => parseTableQuery("TABLE due WHERE due < date(soon)")).toThrow(
+			QuerySyntaxError,
+		);
+		expect(() => parseTableQuery("TABLE due WHERE due < date(05/10)")).toThrow(
+			"Invalid date: date(05/10)",
+		);
+	});
+
+	test("rejects clauses without a body", () => {
+		for (const source of [
+			"TABLE x SORT LIMIT 3",
+			"TABLE x WHERE",
+			"TABLE x FROM WHERE status = 1",
+			"TABLE x LIMIT",
+		]) {
+			expect(() => parseTableQuery(source)).toThrow(QuerySyntaxError);
+		}
+		expect(() => parseTableQuery("TABLE x SORT LIMIT 3")).toThrow(
+			"SORT needs an expression",
+		);
+	});
+});
+
+describe("runTableQuery", () => {
+	let root: string;
+
+	beforeEach(async () => {
+		root = await fs.mkdtemp(path.join(os.tmpdir(), "multimatter-table-"));
+		const write = (file: string, content: string) =>
+			fs.writeFile(path.join(root, file), content);
+		await write("A.md", "---\nstatus: active\npriority: 2\n---\n[[B]]\n");
+		await write("B.md", "---\nstatus: done\npriority: 5\n---\n[[C]]\n");
+		await write("C.md", "---\nstatus: active\n---\nSee [[B]] and [[B]].\n");
+	});
+
+	afterEach(async () => {
+		await fs.rm(root, { recursive: true, force: true });
+	});
+
+	test("filters, sorts missing values last, limits and fills every column", async () => {
+		const index = await rebuildVaultIndex(root);
+		const run = (source: string) =>
+			runTableQuery(index, parseTableQuery(source));
+		expect(
+			await run(
+				"TABLE priority, length(file.inlinks) AS Backlinks SORT priority DESC",
+			),
+		).toEqual({
+			columns: ["File", "priority", "Backlinks"],
+			rows: [
+				{ File: "B.md", priority: 5, Backlinks: 2 },
+				{ File: "A.md", priority: 2, Backlinks: 0 },
+				{ File: "C.md", priority: null, Backlinks: 1 },
+			],
+		});
+		expect(
+			await run(
+				'TABLE WITHOUT ID file.name, priority WHERE status = "active" SORT file.name DESC LIMIT 1',
+			),
+		).toEqual({
+			columns: ["file.name", "priority"],
+			rows: [{ "file.name": "C", priority: null }],
+		});
+	});
+
+	test("reads content when the WHERE clause needs it", async () => {
+		const index = await rebuildVaultIndex(root);
+		const result = await runTableQuery(
+			index,
+			parseTableQuery('TABLE WHERE "see"'),
+		);
+		expect(result.rows).toEqual([{ File: "C.md" }]);
+	});
+});
@@ -0,0 +1,333 @@
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import { formatDate } from "./dates";
+import { buildLinkGraph } from "./links";
+import {
+	type CompiledQuery,
+	compareValues,
+	compileQuery,
+	fieldValue,
+	QuerySyntaxError,
+} from "./query";
+import { ISO_DATE } from "./schema";
+import { normalizeTag } from "./tags";
+import { type Note, noteTags, type VaultIndex } from "./vault-index";
+
+type Column = {
+	header: string;
+	field: string;
+	/** `length(field)`: the number of values instead of the values. */
+	length: boolean;
+};
+
+type SortKey = { column: Column; descending: boolean };
+
+export type TableQuery = {
+	columns: Column[];
+	/** Without `WITHOUT ID` the first column is the note path. */
+	withId: boolean;
+	from?: (note: Note) => boolean;
+	where?: CompiledQuery;
+	sort: SortKey[];
+	limit?: number;
+};
+
+export type TableResult = {
+	columns: string[];
+	rows: Record<string, unknown>[];
+};
+
+const CLAUSES = ["FROM", "WHERE", "SORT", "LIMIT"] as const;
+
+type Clause = (typeof CLAUSES)[number];
+
+/** Split a query on its clause keywords, ignoring keywords inside quotes. */
+const splitClauses = (source: string) => {
+	const parts: { keyword: string; text: string }[] = [
+		{ keyword: "TABLE", text: "" },
+	];
+	let quoted = false;
+	let i = 0;
+	while (i < source.length) {
+		if (source[i] === '"') {
+			quoted = !quoted;
+		}
+		const keyword =
+			!quoted && (i === 0 || /\s/.test(source[i - 1]))
+				? source.slice(i).match(/^(TABLE|FROM|WHERE|SORT|LIMIT)(?=\s|$)/i)
+				: null;
+		if (keyword) {
+			const name = keyword[1].toUpperCase();
+			if (name === "TABLE" && i === 0) {
+				i += keyword[0].length;
+				continue;
+			}
+			if (name === "TABLE" || parts.some((part) => part.keyword === name)) {
+				throw new QuerySyntaxError(`Unexpected ${name}`);
+			}
+			parts.push({ keyword: name, text: "" });
+			i += keyword[0].length;
+			continue;
+		}
+		parts[parts.length - 1].text += source[i++];
+	}
+	const clauses = new Map(parts.map((part) => [part.keyword, part.text.trim()]));
+	for (const clause of CLAUSES) {
+		if (clauses.get(clause) === "") {
+			throw new QuerySyntaxError(`${clause} needs an expression`);
+		}
+	}
+	const order = parts.map((part) => part.keyword);
+	const expected = ["TABLE", ...CLAUSES].filter((name) => order.includes(name));
+	if (order.join() !== expected.join()) {
+		throw new QuerySyntaxError(
+			`Clauses must come in the order TABLE, ${CLAUSES.join(", ")}`,
+		);
+	}
+	return clauses as Map<"TABLE" | Clause, string>;
+};
+
+/** Split on commas outside quotes and parentheses. */
+const splitList = (text: string) => {
+	const items: string[] = [];
+	let current = "";
+	let depth = 0;
+	let quoted = false;
+	for (const char of text) {
+		if (char === '"') quoted = !quoted;
+		if (!quoted && char === "(") depth++;
+		if (!quoted && char === ")") depth--;
+		if (char === "," && !quoted && depth === 0) {
+			items.push(current.trim());
+			current = "";
+		} else {
+			current += char;
+		}
+	}
+	items.push(current.trim());
+	return items.filter(Boolean);
+};
+
+const parseColumn = (text: string): Column => {
+	const match = text.match(
+		/^(?:(length)\(\s*([^()\s]+)\s*\)|([^()\s]+))(?:\s+AS\s+(?:"([^"]*)"|(\S+)))?$/i,
+	);
+	if (!match) {
+		throw new QuerySyntaxError(`Invalid column: ${text}`);
+	}
+	const field = (match[2] || match[3]).toLowerCase();
+	return {
+		header: match[4] ?? match[5] ?? text.replace(/\s+AS\s+.*$/i, ""),
+		field,
+		length: !!match[1],
+	};
+};
+
+/**
+ * `"folder"` and `#tag` sources combined with `AND`, `OR` and a leading `-`.
+ * `AND` binds tighter than `OR`; there are no parentheses.
+ */
+const parseFrom = (text: string) => {
+	const alternatives = text.split(/\s+OR\s+/i).map((alternative) =>
+		alternative.split(/\s+AND\s+/i).map((source) => {
+			const match = source.trim().match(/^(-?)(?:"([^"]*)"|(#\S+))$/);
+			if (!match) {
+				throw new QuerySyntaxError(`Invalid source: ${source.trim()}`);
+			}
+			const negated = !!match[1];
+			let test: (note: Note) => boolean;
+			if (match[3]) {
+				const tag = normalizeTag(match[3]).toLowerCase();
+				test = (note) =>
+					noteTags(note).some((noteTag) => {
+						const lower = noteTag.toLowerCase();
+						return lower === tag || lower.startsWith(`${tag}/`);
+					});
+			} else {
+				const folder = path.normalize(match[2]).replace(/[\\/]+$/, "");
+				test = (note) =>
+					folder === "." ||
+					note.path === folder ||
+					note.path === `${folder}.md` ||
+					note.path.startsWith(folder + path.sep);
+			}
+			return negated ? (note: Note) => !test(note) : test;
+		}),
+	);
+	return (note: Note) =>
+		alternatives.some((sources) => sources.every((test) => test(note)));
+};
+
+const DAY_OFFSETS: Record<string, number> = {
+	yesterday: -1,
+	today: 0,
+	tomorrow: 1,
+};
+
+/** The ISO date for a `date(...)` argument: a date literal or a day keyword. */
+const resolveDate = (argument: string, now: Date) => {
+	const keyword = argument.toLowerCase();
+	if (keyword === "now") {
+		return formatDate(now, "YYYY-MM-DDTHH:mm:ss");
+	}
+	if (keyword in DAY_OFFSETS) {
+		const day = new Date(now);
+		day.setDate(day.getDate() + DAY_OFFSETS[keyword]);
+		return formatDate(day, "YYYY-MM-DD");
+	}
+	if (!ISO_DATE.test(argument)) {
+		throw new QuerySyntaxError(`Invalid date: date(${argument})`);
+	}
+	return argument;
+};
+
+/**
+ * Rewrite a Dataview `WHERE` expression into the `query` syntax: operators
+ * lose their surrounding spaces, `and`/`or`/`&`/`|`/`!` become keywords,
+ * `date(...)` becomes the ISO date it stands for and `contains(field, value)`
+ * becomes `field:value`.
+ */
+const toQuerySyntax = (where: string, now: Date) =>
+	where
+		.replace(
+			/contains\(\s*([^\s,()]+)\s*,\s*("[^"]*"|[^\s()]+)\s*\)/gi,
+			"$1:$2",
+		)
+		.replace(/\bdate\(\s*"([^"]*)"\s*\)/gi, "date($1)")
+		.split(/("(?:[^"\\]|\\.)*")/)
+		.map((part, i) =>
+			// Odd parts are quoted strings and stay as they are
+			i % 2 === 1
+				? part
+				: part
+						.replace(/\bdate\(\s*([^()]*?)\s*\)/gi, (_, argument) =>
+							resolveDate(argument, now),
+						)
+						.replace(/\s*(!=|>=|<=|=|>|<)\s*/g, "$1")
+						.replace(/&&?/g, " AND ")
+						.replace(/\|\|?/g, " OR ")
+						.replace(/!(?!=)/g, " NOT ")
+						.replace(/\b(and|or|not)\b/gi, (keyword) => keyword.toUpperCase()),
+		)
+		.join("");
+
+/**
+ * Parse a Dataview-style table query:
+ *
+ * `TABLE [WITHOUT ID] field [AS "Header"], length(field), ...
+ *  [FROM "folder" OR #tag] [WHERE expression] [SORT field [ASC|DESC], ...]
+ *  [LIMIT n]`
+ *
+ * The leading `TABLE` keyword is optional. `date(today)` and the other day
+ * keywords resolve against `now`.
+ */
+export const parseTableQuery = (
+	source: string,
+	now = new Date(),
+): TableQuery => {
+	const clauses = splitClauses(source.trim());
+	let fields = clauses.get("TABLE") || "";
+	const withoutId = fields.match(/^WITHOUT\s+ID\b/i);
+	if (withoutId) {
+		fields = fields.slice(withoutId[0].length);
+	}
+	const columns = splitList(fields).map(parseColumn);
+	if (columns.length === 0 && withoutId) {
+		throw new QuerySyntaxError("TABLE WITHOUT ID needs at least one column");
+	}
+
+	const from = clauses.get("FROM");
+	const where = clauses.get("WHERE");
+	const sort = clauses.get("SORT");
+	const limit = clauses.get("LIMIT");
+	if (limit !== undefined && !/^\d+$/.test(limit)) {
+		throw new QuerySyntaxError(`LIMIT must be a number, got "${limit}"`);
+	}
+
+	return {
+		columns,
+		withId: !withoutId,
+		from: from ? parseFrom(from) : undefined,
+		where: where ? compileQuery(toQuerySyntax(where, now)) : undefined,
+		sort: splitList(sort || "").map((key) => {
+			const match = key.match(/^(.+?)(?:\s+(ASC|DESC)(?:ENDING)?)?$/i);
+			return {
+				column: parseColumn(match?.[1] || key),
+				descending: match?.[2]?.toUpperCase() === "DESC",
+			};
+		}),
+		limit: limit === undefined ? undefined : Number(limit),
+	};
+};
+
+/** Run a table query against the indexed notes. */
+export const runTableQuery = async (
+	index: VaultIndex,
+	query: TableQuery,
+): Promise<TableResult> => {
+	const graph = buildLinkGraph(index);
+	// Paths of the notes linking to a note, each listed once
+	const inlinks = (note: Note) => [
+		...new Set(
+			(graph.incoming.get(note.path) || []).map((link) => link.source),
+		),
+	];
+	const value = (note: Note, column: Column) => {
+		const raw =
+			column.field === "file.inlinks"
+				? inlinks(note)
+				: fieldValue(note, column.field);
+		if (!column.length) {
+			return raw;
+		}
+		return Array.isArray(raw) ? raw.length : raw ? String(raw).length : 0;
+	};
+
+	const notes: Note[] = [];
+	for (const note of index.notes) {
+		if (query.from && !query.from(note)) {
+			continue;
+		}
+		const content = query.where?.needsContent
+			? await fs.readFile(path.join(index.root, note.path), "utf-8")
+			: undefined;
+		if (!query.where || query.where.matches(note, content)) {
+			notes.push(note);
+		}
+	}
+
+	notes.sort((a, b) => {
+		for (const { column, descending } of query.sort) {
+			const left = value(a, column);
+			const right = value(b, column);
+			// Notes without the field go last in either direction
+			if (left === undefined || right === undefined) {
+				if (left !== right) {
+					return left === undefined ? 1 : -1;
+				}
+				continue;
+			}
+			const order = compareValues(left, right);
+			if (order !== 0) {
+				return descending ? -order : order;
+			}
+		}
+		return 0;
+	});
+
+	const columns = [
+		...(query.withId ? ["File"] : []),
+		...query.columns.map((column) => column.header),
+	];
+	const rows = notes.slice(0, query.limit).map((note) => {
+		const row: Record<string, unknown> = query.withId
+			? { File: note.path }
+			: {};
+		// null rather than undefined, so JSON rows keep every column
+		for (const column of query.columns) {
+			row[column.header] = value(note, column) ?? null;
+		}
+		return row;
+	});
+	return { columns, rows };
+};
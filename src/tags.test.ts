@@ -0,0 +1,161 @@
+import { describe, expect, test } from "bun:test";
+import {
+	buildTagTree,
+	countTags,
+	mapTags,
+	normalizeTag,
+	parseFrontMatterTags,
+	parseInlineTags,
+	retag,
+	rewriteInlineTags,
+} from "./tags";
+
+describe("normalizeTag", () => {
+	test("strips the leading # and surrounding slashes", () => {
+		expect(normalizeTag("#project")).toBe("project");
+		expect(normalizeTag(" /area/work/ ")).toBe("area/work");
+		expect(normalizeTag("été-2024_x")).toBe("été-2024_x");
+	});
+
+	test("is empty for invalid and purely numeric tags", () => {
+		expect(normalizeTag("two words")).toBe("");
+		expect(normalizeTag("#")).toBe("");
+		expect(normalizeTag("2024")).toBe("");
+		expect(normalizeTag(2024)).toBe("");
+		expect(normalizeTag("2024/05")).toBe("");
+		expect(normalizeTag("y2024")).toBe("y2024");
+	});
+});
+
+describe("parseFrontMatterTags", () => {
+	test("reads lists and separated strings from tags and tag", () => {
+		expect(parseFrontMatterTags({ tags: ["#a", "area/work"] })).toEqual([
+			"a",
+			"area/work",
+		]);
+		expect(parseFrontMatterTags({ tags: "a, b c" })).toEqual(["a", "b", "c"]);
+		expect(parseFrontMatterTags({ tag: "single", tags: ["a", "single"] })).toEqual(
+			["a", "single"],
+		);
+	});
+
+	test("skips empty, nested and numeric values", () => {
+		expect(parseFrontMatterTags({ tags: null })).toEqual([]);
+		expect(parseFrontMatterTags({ tags: [null, { a: 1 }, 12, "ok"] })).toEqual([
+			"ok",
+		]);
+	});
+});
+
+describe("parseInlineTags", () => {
+	test("reads tags with nesting and unicode", () => {
+		expect(
+			parseInlineTags("#start of line, (#paren) and #area/work #café #a-b_c"),
+		).toEqual(["start", "paren", "area/work", "café", "a-b_c"]);
+	});
+
+	test("skips headings, anchors and numbers", () => {
+		expect(parseInlineTags("# Heading\nissue#12 and #123 [[Note#Part]]")).toEqual(
+			[],
+		);
+	});
+
+	test("skips code spans, fenced blocks and URLs", () => {
+		const body = [
+			"`#inline` [link](Note.md#part) https://example.com/#anchor",
+			"```",
+			"#fenced",
+			"```",
+			"~~~js",
+			"#tilde",
+			"~~~",
+			"#real",
+		].join("\n");
+		expect(parseInlineTags(body)).toEqual(["real"]);
+	});
+});
+
+describe("buildTagTree", () => {
+	test("counts each tag once per note", () => {
+		expect(countTags([["a", "a", "b"], ["a"]])).toEqual(
+			new Map([
+				["a", 2],
+				["b", 1],
+			]),
+		);
+	});
+
+	test("adds parents and sorts children after them", () => {
+		expect(
+			buildTagTree([["area/work", "zeta"], ["area", "area/home"], ["area-x"]]),
+		).toEqual([
+			{ tag: "area", name: "area", depth: 0, count: 2 },
+			{ tag: "area/home", name: "home", depth: 1, count: 1 },
+			{ tag: "area/work", name: "work", depth: 1, count: 1 },
+			{ tag: "area-x", name: "area-x", depth: 0, count: 1 },
+			{ tag: "zeta", name: "zeta", depth: 0, count: 1 },
+		]);
+	});
+});
+
+describe("retag", () => {
+	test("renames a tag and its nested children", () => {
+		const rename = retag(["#Proj"], "project");
+		expect(rename("proj")).toBe("project");
+		expect(rename("proj/client/acme")).toBe("project/client/acme");
+		expect(rename("projects")).toBe("projects");
+		expect(rename("area/proj")).toBe("area/proj");
+	});
+
+	test("removes a tag with its children", () => {
+		const remove = retag(["old"], null);
+		expect(remove("old")).toBeNull();
+		expect(remove("old/child")).toBeNull();
+		expect(remove("older")).toBe("older");
+	});
+});
+
+describe("mapTags", () => {
+	test("merges into one tag without duplicates", () => {
+		expect(
+			mapTags(["a", "b", "keep", "c", "b/x"], retag(["a", "b"], "c")),
+		).toEqual(["c", "keep", "c/x"]);
+	});
+
+	test("drops removed tags", () => {
+		expect(mapTags(["a", "a/b", "c"], retag(["a"], null))).toEqual(["c"]);
+	});
+});
+
+describe("rewriteInlineTags", () => {
+	test("renames nested tags and reports each replacement", () => {
+		const rename = retag(["proj"], "project");
+		expect(
+			rewriteInlineTags("#proj and #proj/client, not #projects", rename),
+		).toEqual({
+			text: "#project and #project/client, not #projects",
+			replacements: [
+				{ from: "proj", to: "project" },
+				{ from: "proj/client", to: "project/client" },
+			],
+		});
+	});
+
+	test("leaves tags in code and URLs alone", () => {
+		const body = [
+			"`#old` [x](Note.md#old) https://example.com/#old #old",
+			"```",
+			"#old",
+			"```",
+		].join("\n");
+		expect(rewriteInlineTags(body, retag(["old"], "new")).text).toBe(
+			body.replace(/ #old$/m, " #new"),
+		);
+	});
+
+	test("takes one space with a removed tag", () => {
+		const remove = retag(["old"], null);
+		expect(rewriteInlineTags("a #old b", remove).text).toBe("a b");
+		expect(rewriteInlineTags("#old b\na #old", remove).text).toBe("b\na");
+	});
+});
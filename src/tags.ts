@@ -0,0 +1,186 @@
+export type TagCount = {
+	tag: string;
+	count: number;
+};
+
+/** Returns the replacement for a tag, itself to keep it, or null to drop it. */
+export type TagMapping = (tag: string) => string | null;
+
+export type TagReplacement = {
+	from: string;
+	to: string | null;
+};
+
+export type TagTreeNode = TagCount & {
+	/** Last segment of a nested tag, e.g. "work" for "area/work". */
+	name: string;
+	depth: number;
+};
+
+// Obsidian tags: letters, digits, `_`, `-` and `/` for nesting
+const INLINE_TAG = /(?<![^\s(])#([\p{L}\p{N}_\-/]+)/gu;
+
+// Code, link targets and URLs where a `#` is never a tag
+const NOT_TAGS =
+	/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$|`[^`\n]*`|\]\([^)\n]*\)|\b[a-z][a-z\d+.-]*:\/\/[^\s)>\]]+/gim;
+
+/** Apply `fn` to the parts of a note body that may contain tags. */
+const mapTaggableText = (content: string, fn: (text: string) => string) => {
+	let result = "";
+	let last = 0;
+	for (const match of content.matchAll(NOT_TAGS)) {
+		result += fn(content.slice(last, match.index)) + match[0];
+		last = (match.index || 0) + match[0].length;
+	}
+	return result + fn(content.slice(last));
+};
+
+/** Strip a leading `#` and surrounding slashes; empty for invalid tags. */
+export const normalizeTag = (raw: unknown) => {
+	const tag = String(raw)
+		.trim()
+		.replace(/^#/, "")
+		.replace(/^\/+|\/+$/g, "");
+	// Purely numeric tags aren't tags in Obsidian
+	return /^[\p{L}\p{N}_\-/]+$/u.test(tag) && !/^[\d/]+$/.test(tag) ? tag : "";
+};
+
+const unique = (tags: string[]) => [...new Set(tags.filter(Boolean))];
+
+/**
+ * Tags declared in front matter. Understands `tags` and `tag`, as lists or
+ * as comma or space separated strings, with or without a leading `#`.
+ */
+export const parseFrontMatterTags = (attributes: Record<string, unknown>) =>
+	unique(
+		[attributes.tags, attributes.tag].flatMap((value) => {
+			if (value === undefined || value === null) {
+				return [];
+			}
+			const values = Array.isArray(value) ? value : [value];
+			return values
+				.filter((item) => item !== null && typeof item !== "object")
+				.flatMap((item) => String(item).split(/[,\s]+/))
+				.map(normalizeTag);
+		}),
+	);
+
+/** `#tags` in a note body, ignoring code, link targets and URLs. */
+export const parseInlineTags = (content: string) => {
+	const tags: string[] = [];
+	mapTaggableText(content, (text) => {
+		for (const match of text.matchAll(INLINE_TAG)) {
+			tags.push(normalizeTag(match[1]));
+		}
+		return text;
+	});
+	return unique(tags);
+};
+
+/**
+ * Map tags matching any of `sources`, or nested below one (`old/child`), to
+ * `target`. Tags compare case-insensitively like in Obsidian.
+ */
+export const retag =
+	(sources: string[], target: string | null): TagMapping =>
+	(tag) => {
+		const lower = tag.toLowerCase();
+		for (const source of sources.map(normalizeTag)) {
+			const prefix = source.toLowerCase();
+			if (lower === prefix) {
+				return target;
+			}
+			if (lower.startsWith(`${prefix}/`)) {
+				return target === null ? null : target + tag.slice(source.length);
+			}
+		}
+		return tag;
+	};
+
+/** Apply a mapping to a tag list, dropping removed tags and duplicates. */
+export const mapTags = (tags: string[], mapping: TagMapping) =>
+	unique(tags.map((tag) => mapping(tag) || ""));
+
+/**
+ * Rewrite inline `#tags` in a note body. A removed tag takes one adjacent
+ * space with it so no double spaces are left behind.
+ */
+export const rewriteInlineTags = (content: string, mapping: TagMapping) => {
+	const replacements: TagReplacement[] = [];
+	const text = mapTaggableText(content, (part) => {
+		let result = "";
+		let last = 0;
+		for (const match of part.matchAll(INLINE_TAG)) {
+			const start = match.index || 0;
+			const tag = normalizeTag(match[1]);
+			const to = tag ? mapping(tag) : tag;
+			result += part.slice(last, start);
+			last = start + match[0].length;
+			if (!tag || to === tag) {
+				result += match[0];
+				continue;
+			}
+			replacements.push({ from: tag, to });
+			if (to !== null) {
+				result += `#${to}`;
+			} else if (/[ \t]$/.test(result)) {
+				result = result.slice(0, -1);
+			} else if (/[ \t]/.test(part[last] || "")) {
+				last++;
+			}
+		}
+		return result + part.slice(last);
+	});
+	return { text, replacements };
+};
+
+/** Count each tag once per note. */
+export const countTags = (tagsPerNote: string[][]) => {
+	const counts = new Map<string, number>();
+	for (const tags of tagsPerNote) {
+		for (const tag of new Set(tags)) {
+			counts.set(tag, (counts.get(tag) || 0) + 1);
+		}
+	}
+	return counts;
+};
+
+// Segment-wise, so children sort right after their parent
+const compareNested = (a: string, b: string) => {
+	const left = a.split("/");
+	const right = b.split("/");
+	for (let i = 0; i < Math.min(left.length, right.length); i++) {
+		const order = left[i].localeCompare(right[i]);
+		if (order !== 0) {
+			return order;
+		}
+	}
+	return left.length - right.length;
+};
+
+/**
+ * Flatten nested tags (`area/work`) into a depth-first tree. A parent's count
+ * is the number of notes tagged with it or any of its children.
+ */
+export const buildTagTree = (tagsPerNote: string[][]): TagTreeNode[] => {
+	const counts = countTags(
+		tagsPerNote.map((tags) =>
+			tags.flatMap((tag) =>
+				tag
+					.split("/")
+					.map((_, i, segments) => segments.slice(0, i + 1).join("/")),
+			),
+		),
+	);
+	return Array.from(counts.keys())
+		.sort(compareNested)
+		.map((tag) => {
+			const segments = tag.split("/");
+			return {
+				tag,
+				name: segments[segments.length - 1],
+				depth: segments.length - 1,
+				count: counts.get(tag) || 0,
+			};
+		});
+};
@@ -0,0 +1,174 @@
+import { describe, expect, test } from "bun:test";
+import {
+	parseDueFilter,
+	parseTaskRef,
+	parseTasks,
+	TaskError,
+	toggleTask,
+	type Task,
+} from "./tasks";
+
+describe("parseTasks", () => {
+	test("reads status, metadata, tags and heading", () => {
+		const body = [
+			"# Plans",
+			"- [ ] Call Bob #work 📅 2024-05-01 ⏫ 🔁 every week",
+			"  * [x] Done thing ✅ 2024-04-30 ^abc",
+			"## Later",
+			"1. [/] Draft [due:: 2024-06-01] [priority:: low]",
+			"> - [-] Dropped ❌ 2024-04-01",
+			"- [?] Odd mark",
+			"- not a task",
+			"- [ ]no space",
+		].join("\n");
+		const headings = [
+			{ level: 1, text: "Plans", line: 4 },
+			{ level: 2, text: "Later", line: 7 },
+		];
+		expect(parseTasks(body, 4, headings)).toEqual([
+			{
+				line: 5,
+				status: "todo",
+				text: "Call Bob #work",
+				due: "2024-05-01",
+				priority: "high",
+				recurrence: "every week",
+				heading: "Plans",
+				tags: ["work"],
+			},
+			{
+				line: 6,
+				status: "done",
+				text: "Done thing",
+				done: "2024-04-30",
+				heading: "Plans",
+				tags: [],
+			},
+			{
+				line: 8,
+				status: "in-progress",
+				text: "Draft",
+				due: "2024-06-01",
+				priority: "low",
+				heading: "Later",
+				tags: [],
+			},
+			{
+				line: 9,
+				status: "cancelled",
+				text: "Dropped",
+				cancelled: "2024-04-01",
+				heading: "Later",
+				tags: [],
+			},
+			{ line: 10, status: "todo", text: "Odd mark", heading: "Later", tags: [] },
+		]);
+	});
+
+	test("skips tasks in code and keeps CRLF out of the text", () => {
+		const body = "```\n- [ ] In code\n```\r\n- [ ] Real\r\n";
+		expect(parseTasks(body, 1, [])).toEqual([
+			{ line: 4, status: "todo", text: "Real", tags: [] },
+		]);
+	});
+});
+
+describe("toggleTask", () => {
+	test("checks a task and adds the done date before a block ID", () => {
+		expect(toggleTask("- [ ] Task\n", 1, "2024-05-02")).toBe(
+			"- [x] Task ✅ 2024-05-02\n",
+		);
+		expect(toggleTask("# T\n- [/] Task ^id\n", 2, "2024-05-02")).toBe(
+			"# T\n- [x] Task ✅ 2024-05-02 ^id\n",
+		);
+		expect(toggleTask("- [ ] Task", 1)).toBe("- [x] Task");
+	});
+
+	test("uses a Dataview field for tasks written with fields", () => {
+		expect(toggleTask("- [ ] Task [due:: 2024-05-01]", 1, "2024-05-02")).toBe(
+			"- [x] Task [due:: 2024-05-01] [completion:: 2024-05-02]",
+		);
+	});
+
+	test("opens a done task again and drops its done date", () => {
+		expect(toggleTask("- [x] Task ✅ 2024-05-02 ^id", 1, "2024-06-01")).toBe(
+			"- [ ] Task ^id",
+		);
+		expect(toggleTask("- [X] Task [completion:: 2024-05-02]", 1)).toBe(
+			"- [ ] Task",
+		);
+	});
+
+	test("leaves the other lines and line endings alone", () => {
+		const content = "a\r\n- [ ] Task\r\nb\r\n";
+		expect(toggleTask(content, 2, "2024-05-02")).toBe(
+			"a\r\n- [x] Task ✅ 2024-05-02\r\nb\r\n",
+		);
+		expect(toggleTask(toggleTask(content, 2, "2024-05-02"), 2)).toBe(content);
+	});
+
+	test("rejects lines that aren't tasks", () => {
+		expect(() => toggleTask("- item\n", 1)).toThrow(TaskError);
+		expect(() => toggleTask("- [ ] Task\n", 5)).toThrow("Line 5 is not a task");
+	});
+});
+
+describe("parseTaskRef", () => {
+	test("splits note and line", () => {
+		expect(parseTaskRef("Work/Plan.md:12")).toEqual({
+			note: "Work/Plan.md",
+			line: 12,
+		});
+		expect(() => parseTaskRef("Plan.md")).toThrow(TaskError);
+		expect(() => parseTaskRef("Plan.md:0")).toThrow(TaskError);
+	});
+});
+
+describe("parseDueFilter", () => {
+	const task = (due: string | undefined, status: Task["status"] = "todo"): Task => ({
+		line: 1,
+		status,
+		text: "",
+		tags: [],
+		due,
+	});
+	const today = "2024-05-10";
+	const matches = (value: string, ...tasks: Task[]) => {
+		const filter = parseDueFilter(value, today);
+		return tasks.map((candidate) => filter?.(candidate));
+	};
+
+	test("filters by day, range and missing dates", () => {
+		expect(matches("today", task("2024-05-10"), task("2024-05-11"))).toEqual([
+			true,
+			false,
+		]);
+		expect(
+			matches("..2024-05-01", task("2024-04-01"), task("2024-05-02"), task(undefined)),
+		).toEqual([true, false, false]);
+		expect(matches("today..", task("2024-05-09"), task("2030-01-01"))).toEqual([
+			false,
+			true,
+		]);
+		expect(matches("none", task(undefined), task("2024-05-10"))).toEqual([
+			true,
+			false,
+		]);
+	});
+
+	test("overdue leaves out finished tasks", () => {
+		expect(
+			matches(
+				"overdue",
+				task("2024-05-09"),
+				task("2024-05-09", "done"),
+				task("2024-05-10"),
+			),
+		).toEqual([true, false, false]);
+	});
+
+	test("is undefined for values it doesn't know", () => {
+		expect(parseDueFilter("tomorrow", today)).toBeUndefined();
+		expect(parseDueFilter("2024-05..", today)).toBeUndefined();
+	});
+});
@@ -0,0 +1,252 @@
+import { parseInlineTags } from "./tags";
+import type { Heading } from "./vault-index";
+
+/** A task reference or a line to toggle isn't valid. */
+export class TaskError extends Error {}
+
+export const TASK_STATUSES = ["todo", "in-progress", "done", "cancelled"] as const;
+
+export type TaskStatus = (typeof TASK_STATUSES)[number];
+
+export const TASK_PRIORITIES = [
+	"highest",
+	"high",
+	"medium",
+	"low",
+	"lowest",
+] as const;
+
+export type TaskPriority = (typeof TASK_PRIORITIES)[number];
+
+export type Task = {
+	/** 1-based line number in the file. */
+	line: number;
+	status: TaskStatus;
+	/** Text without the checkbox, dates, priority and recurrence. */
+	text: string;
+	/** Closest heading above the task. */
+	heading?: string;
+	/** Inline `#tags` of the task line. */
+	tags: string[];
+	/** Dates as written, `YYYY-MM-DD`. */
+	due?: string;
+	scheduled?: string;
+	start?: string;
+	created?: string;
+	done?: string;
+	cancelled?: string;
+	priority?: TaskPriority;
+	/** Recurrence rule, e.g. "every week". */
+	recurrence?: string;
+};
+
+type TaskDate = "due" | "scheduled" | "start" | "created" | "done" | "cancelled";
+
+// Checkbox characters of the Tasks plugin; any other character is open
+const STATUS_MARKS: Record<string, TaskStatus> = {
+	" ": "todo",
+	"/": "in-progress",
+	x: "done",
+	X: "done",
+	"-": "cancelled",
+};
+
+const DATE_EMOJIS: Record<string, TaskDate> = {
+	"📅": "due",
+	"⏳": "scheduled",
+	"🛫": "start",
+	"➕": "created",
+	"✅": "done",
+	"❌": "cancelled",
+};
+
+const PRIORITY_EMOJIS: Record<string, TaskPriority> = {
+	"🔺": "highest",
+	"⏫": "high",
+	"🔼": "medium",
+	"🔽": "low",
+	"⏬": "lowest",
+};
+
+// Dataview inline fields, e.g. `[due:: 2024-05-01]`
+const FIELD_NAMES: Record<string, TaskDate | "priority" | "recurrence"> = {
+	due: "due",
+	scheduled: "scheduled",
+	start: "start",
+	created: "created",
+	completion: "done",
+	cancelled: "cancelled",
+	priority: "priority",
+	repeat: "recurrence",
+};
+
+// List item with a checkbox, also inside quotes and callouts
+const TASK_LINE = /^((?:\s*>)*\s*(?:[-*+]|\d+[.)])\s+\[)(.)\](?=\s|$)(.*)$/;
+
+const EMOJI_DATE = /(📅|⏳|🛫|➕|✅|❌)\uFE0F?\s*(\d{4}-\d{2}-\d{2})/gu;
+const PRIORITY = /(🔺|⏫|🔼|🔽|⏬)\uFE0F?/gu;
+const RECURRENCE = /🔁\uFE0F?\s*([^📅⏳🛫➕✅❌🔺⏫🔼🔽⏬[\](]*)/u;
+const BRACKET_FIELD = /[[(]([\w-]+)::\s*([^\])]*?)\s*[\])]/g;
+const BARE_FIELD = /(?:^|\s)([\w-]+)::\s*(.*)$/;
+const BLOCK_ID = /\s\^[\w-]+\s*$/;
+
+/** Split the text after a checkbox into the task's text and metadata. */
+const parseTaskText = (raw: string) => {
+	const meta: Partial<Omit<Task, "line" | "status" | "text" | "tags">> = {};
+	const setField = (name: string, value: string) => {
+		const key = FIELD_NAMES[name.toLowerCase()];
+		if (!key) {
+			return false;
+		}
+		if (key === "priority") {
+			const priority = value.trim().toLowerCase() as TaskPriority;
+			if (TASK_PRIORITIES.includes(priority)) {
+				meta.priority = priority;
+			}
+		} else {
+			meta[key] = value.trim();
+		}
+		return true;
+	};
+	const text = raw
+		.replace(BLOCK_ID, "")
+		.replace(RECURRENCE, (_, rule: string) => {
+			meta.recurrence = rule.trim();
+			return " ";
+		})
+		.replace(EMOJI_DATE, (_, emoji: string, date: string) => {
+			meta[DATE_EMOJIS[emoji]] = date;
+			return " ";
+		})
+		.replace(PRIORITY, (emoji: string) => {
+			meta.priority = PRIORITY_EMOJIS[emoji.replace("\uFE0F", "")];
+			return " ";
+		})
+		.replace(BRACKET_FIELD, (field, name: string, value: string) =>
+			setField(name, value) ? " " : field,
+		)
+		.replace(BARE_FIELD, (field, name: string, value: string) =>
+			setField(name, value) ? " " : field,
+		)
+		.replace(/\s+/g, " ")
+		.trim();
+	return { text, ...meta };
+};
+
+/**
+ * The checkbox items of a note body (`- [ ] task`, `1. [x] task`), outside
+ * code, with Tasks plugin emoji metadata (`📅 2024-05-01`, `⏫`, `🔁 every
+ * week`) and Dataview fields (`[due:: 2024-05-01]`). `bodyBegin` is the
+ * file line of the body's first line.
+ */
+export const parseTasks = (
+	body: string,
+	bodyBegin: number,
+	headings: Heading[],
+) => {
+	const tasks: Task[] = [];
+	let inFence = false;
+	body.split("\n").forEach((rawLine, i) => {
+		const line = rawLine.replace(/\r$/, "");
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+			return;
+		}
+		const match = !inFence && line.match(TASK_LINE);
+		if (!match) {
+			return;
+		}
+		const fileLine = bodyBegin + i;
+		const heading = headings
+			.filter((candidate) => candidate.line < fileLine)
+			.pop();
+		tasks.push({
+			line: fileLine,
+			status: STATUS_MARKS[match[2]] || "todo",
+			...parseTaskText(match[3]),
+			...(heading ? { heading: heading.text } : {}),
+			tags: parseInlineTags(match[3]),
+		});
+	});
+	return tasks;
+};
+
+/** Split a `note:line` task reference. */
+export const parseTaskRef = (ref: string) => {
+	const match = ref.match(/^(.+):(\d+)$/);
+	if (!match || Number(match[2]) < 1) {
+		throw new TaskError(`Expected <note>:<line>, got ${ref}`);
+	}
+	return { note: match[1], line: Number(match[2]) };
+};
+
+/**
+ * Toggle the task on a 1-based file line: a done task is opened again and
+ * loses its done date, any other task is checked and gets `doneDate` (as
+ * `✅ date`, or `[completion:: date]` for tasks using Dataview fields). The
+ * rest of the note is left as it is.
+ */
+export const toggleTask = (content: string, line: number, doneDate?: string) => {
+	const lines = content.split("\n");
+	const current = lines[line - 1];
+	const eol = current?.endsWith("\r") ? "\r" : "";
+	const match = current?.slice(0, current.length - eol.length).match(TASK_LINE);
+	if (!match) {
+		throw new TaskError(`Line ${line} is not a task`);
+	}
+	const [, prefix, mark, rest] = match;
+	let updated: string;
+	if (STATUS_MARKS[mark] === "done") {
+		updated = `${prefix} ]${rest
+			.replace(/\s*✅\uFE0F?\s*\d{4}-\d{2}-\d{2}/u, "")
+			.replace(/\s*[[(]completion::[^\])]*[\])]/, "")}`;
+	} else {
+		let text = rest;
+		if (doneDate && !/✅|completion::/u.test(rest)) {
+			// The done date goes before a trailing block ID
+			const blockId = rest.match(BLOCK_ID)?.[0] || "";
+			const marker = /[[(][\w-]+::/.test(rest)
+				? `[completion:: ${doneDate}]`
+				: `✅ ${doneDate}`;
+			const before = rest.slice(0, rest.length - blockId.length).trimEnd();
+			text = `${before} ${marker}${blockId}`;
+		}
+		updated = `${prefix}x]${text}`;
+	}
+	lines[line - 1] = updated + eol;
+	return lines.join("\n");
+};
+
+/**
+ * A `--due` filter: `today`, `overdue` (open tasks due before today),
+ * `none` (no due date), a date, or a range `from..to` where either end may
+ * be left out or be `today`. Undefined when the value is none of these.
+ */
+export const parseDueFilter = (value: string, today: string) => {
+	const date = (part: string) =>
+		part === "today"
+			? today
+			: /^\d{4}-\d{2}-\d{2}$/.test(part)
+				? part
+				: undefined;
+	switch (value) {
+		case "overdue":
+			return (task: Task) =>
+				task.due !== undefined &&
+				task.due < today &&
+				task.status !== "done" &&
+				task.status !== "cancelled";
+		case "none":
+			return (task: Task) => task.due === undefined;
+	}
+	const [fromPart, toPart] = value.includes("..")
+		? value.split("..")
+		: [value, value];
+	const from = fromPart ? date(fromPart) : "";
+	const to = toPart ? date(toPart) : "9999-12-31";
+	if (from === undefined || to === undefined) {
+		return undefined;
+	}
+	return (task: Task) =>
+		task.due !== undefined && task.due >= from && task.due <= to;
+};
@@ -0,0 +1,377 @@
+import readline from "node:readline";
+import chalk from "chalk";
+import { fuzzyFilter } from "./fuzzy";
+
+export type Pane = {
+	title: string;
+	lines: string[];
+	/** Line to scroll to, e.g. the first match. */
+	focus?: number;
+	/** Use the whole width, hiding the list. */
+	wide?: boolean;
+};
+
+export type PickerScreen<T> = {
+	/** Leave the full screen while `task` runs, e.g. an editor, then redraw. */
+	suspend: (task: () => Promise<void>) => Promise<void>;
+	/** Show a message in the status line until the next key. */
+	status: (message: string) => void;
+	/** Show a pane instead of the preview until Esc or the selection moves. */
+	showPane: (pane: Pane) => void;
+	/** Read a line of input in the status line; undefined when cancelled. */
+	prompt: (label: string) => Promise<string | undefined>;
+	/** Replace the listed items, keeping the filter. */
+	setItems: (items: T[]) => void;
+	/** Preview the selection again, e.g. after its file changed. */
+	refresh: () => void;
+};
+
+export type PickerAction<T> = {
+	/** Key as `name` or `ctrl+name`, using readline's key names. */
+	key: string;
+	/** Shown in the help line, e.g. "^o open". */
+	help: string;
+	run: (item: T, screen: PickerScreen<T>) => Promise<void> | void;
+};
+
+export type PickerOptions<T> = {
+	title: string;
+	items: T[];
+	/** Text shown in the list and matched by the filter. */
+	label: (item: T) => string;
+	/** Dimmed text after the label, e.g. a match count. */
+	hint?: (item: T) => string;
+	preview: (item: T) => Promise<Pane> | Pane;
+	actions: PickerAction<T>[];
+};
+
+const ANSI = /\x1b\[[0-9;?]*[A-Za-z]/y;
+
+/**
+ * Cut a line with ANSI styles to `width` visible characters and pad it, so
+ * rows never wrap. Styles are reset at the cut.
+ */
+export const fitLine = (text: string, width: number) => {
+	let result = "";
+	let visible = 0;
+	let i = 0;
+	while (i < text.length && visible < width) {
+		ANSI.lastIndex = i;
+		const escape = ANSI.exec(text);
+		if (escape) {
+			result += escape[0];
+			i += escape[0].length;
+			continue;
+		}
+		const char = String.fromCodePoint(text.codePointAt(i) as number);
+		result += char === "\t" ? "  " : char;
+		visible += char === "\t" ? 2 : 1;
+		i += char.length;
+	}
+	return `${result}\x1b[0m${" ".repeat(Math.max(0, width - visible))}`;
+};
+
+const highlight = (text: string, positions: number[]) => {
+	if (positions.length === 0) {
+		return text;
+	}
+	const marked = new Set(positions);
+	return Array.from(text, (char, i) =>
+		marked.has(i) ? chalk.yellow.bold(char) : char,
+	).join("");
+};
+
+/** Copy to the clipboard with the OSC 52 escape, understood by most terminals. */
+export const copyToClipboard = (text: string) => {
+	process.stdout.write(`\x1b]52;c;${Buffer.from(text).toString("base64")}\x07`);
+};
+
+/**
+ * A full-screen picker: a scrolling list filtered as you type, a preview
+ * pane of the selection and key bindings for actions. The terminal is put
+ * back the way it was when the picker closes, on Esc, Ctrl+C or an error.
+ */
+export const runPicker = <T>(options: PickerOptions<T>) =>
+	new Promise<void>((resolve, reject) => {
+		const { stdin, stdout } = process;
+		if (!stdin.isTTY || !stdout.isTTY) {
+			reject(new Error("The interactive view needs a terminal"));
+			return;
+		}
+
+		let items = options.items;
+		let filter = "";
+		let visible = fuzzyFilter(items, filter, options.label);
+		let selected = 0;
+		let listTop = 0;
+		let pane: Pane | undefined;
+		let custom = false;
+		let paneTop = 0;
+		let message = "";
+		let input:
+			| { label: string; text: string; done: (text?: string) => void }
+			| undefined;
+		let busy = false;
+		let previewed: T | undefined;
+
+		const enter = () => {
+			stdout.write("\x1b[?1049h\x1b[?25l");
+			stdin.setRawMode(true);
+			stdin.resume();
+		};
+		const leave = () => {
+			stdout.write("\x1b[?25h\x1b[?1049l");
+			stdin.setRawMode(false);
+			stdin.pause();
+		};
+
+		const loadPreview = async () => {
+			const item = visible[selected]?.item;
+			previewed = item;
+			custom = false;
+			if (item === undefined) {
+				pane = undefined;
+				render();
+				return;
+			}
+			let next: Pane;
+			try {
+				next = await options.preview(item);
+			} catch (error) {
+				next = {
+					title: "Preview failed",
+					lines: [chalk.red(error instanceof Error ? error.message : String(error))],
+				};
+			}
+			// Ignore previews that arrive after the selection moved on
+			if (previewed === item && !custom) {
+				pane = next;
+				paneTop = Math.max(0, (next.focus ?? 0) - 3);
+				render();
+			}
+		};
+
+		const render = () => {
+			const width = stdout.columns || 80;
+			const height = stdout.rows || 24;
+			const bodyHeight = Math.max(1, height - 3);
+			const rows: string[] = [];
+
+			rows.push(
+				fitLine(
+					`${chalk.bold(options.title)} ${chalk.gray(`${visible.length}/${items.length}`)}`,
+					width,
+				),
+			);
+			rows.push(fitLine(`${chalk.cyan(">")} ${filter}${chalk.inverse(" ")}`, width));
+
+			if (selected < listTop) {
+				listTop = selected;
+			} else if (selected >= listTop + bodyHeight) {
+				listTop = selected - bodyHeight + 1;
+			}
+			const wide = pane?.wide;
+			const listWidth = wide ? 0 : Math.max(24, Math.floor(width * 0.4));
+			const paneWidth = wide ? width : width - listWidth - 1;
+			const paneLines = pane
+				? [
+						chalk.bold.underline(pane.title),
+						...pane.lines.slice(paneTop, paneTop + bodyHeight - 1),
+					]
+				: [];
+			for (let row = 0; row < bodyHeight; row++) {
+				const paneCell = fitLine(paneLines[row] || "", paneWidth);
+				if (wide) {
+					rows.push(paneCell);
+					continue;
+				}
+				const entry = visible[listTop + row];
+				let listCell = "";
+				if (entry) {
+					const isSelected = listTop + row === selected;
+					const label = highlight(options.label(entry.item), entry.positions);
+					const hint = options.hint ? chalk.gray(` ${options.hint(entry.item)}`) : "";
+					listCell = isSelected
+						? chalk.cyan(`❯ ${label}`) + hint
+						: `  ${label}${hint}`;
+				}
+				rows.push(`${fitLine(listCell, listWidth)}${chalk.gray("│")}${paneCell}`);
+			}
+
+			const help = [
+				"↑↓ move",
+				"type to filter",
+				...options.actions.map((action) => action.help),
+				"pgup/pgdn scroll",
+				"esc back",
+			].join(" · ");
+			rows.push(
+				fitLine(
+					input
+						? `${input.label}${input.text}${chalk.inverse(" ")}`
+						: message
+							? chalk.yellow(message)
+							: chalk.gray(help),
+					width,
+				),
+			);
+			stdout.write(`\x1b[H${rows.join("\r\n")}`);
+		};
+
+		const refilter = () => {
+			visible = fuzzyFilter(items, filter, options.label);
+			selected = 0;
+			listTop = 0;
+			void loadPreview();
+		};
+
+		const screen: PickerScreen<T> = {
+			suspend: async (task) => {
+				stdin.off("keypress", onKey);
+				leave();
+				try {
+					await task();
+				} finally {
+					enter();
+					stdin.on("keypress", onKey);
+					render();
+				}
+			},
+			status: (text) => {
+				message = text;
+				render();
+			},
+			showPane: (next) => {
+				pane = next;
+				custom = true;
+				paneTop = Math.max(0, (next.focus ?? 0) - 3);
+				render();
+			},
+			prompt: (label) =>
+				new Promise((done) => {
+					input = { label, text: "", done };
+					render();
+				}),
+			setItems: (next) => {
+				items = next;
+				refilter();
+			},
+			refresh: () => {
+				void loadPreview();
+			},
+		};
+
+		const close = (error?: unknown) => {
+			stdin.off("keypress", onKey);
+			stdout.off("resize", render);
+			process.off("exit", leave);
+			leave();
+			if (error) {
+				reject(error);
+			} else {
+				resolve();
+			}
+		};
+
+		const move = (to: number) => {
+			const next = Math.max(0, Math.min(visible.length - 1, to));
+			if (next !== selected) {
+				selected = next;
+				void loadPreview();
+			}
+		};
+
+		const onInputKey = (text: string | undefined, key: readline.Key) => {
+			if (!input) {
+				return;
+			}
+			if (key.name === "return" || key.name === "escape" || (key.ctrl && key.name === "c")) {
+				const { done, text: value } = input;
+				input = undefined;
+				render();
+				done(key.name === "return" ? value : undefined);
+			} else if (key.name === "backspace") {
+				input.text = input.text.slice(0, -1);
+				render();
+			} else if (text && !key.ctrl && !key.meta && text >= " ") {
+				input.text += text;
+				render();
+			}
+		};
+
+		const onKey = async (text: string | undefined, key: readline.Key = {}) => {
+			if (input) {
+				onInputKey(text, key);
+				return;
+			}
+			if (busy) {
+				return;
+			}
+			message = "";
+			const name = `${key.ctrl ? "ctrl+" : ""}${key.name || ""}`;
+			const bodyHeight = Math.max(1, (stdout.rows || 24) - 3);
+			const action = options.actions.find((candidate) => candidate.key === name);
+			try {
+				if (name === "ctrl+c") {
+					close();
+				} else if (name === "escape") {
+					if (custom) {
+						void loadPreview();
+					} else if (filter) {
+						filter = "";
+						refilter();
+					} else {
+						close();
+					}
+				} else if (action) {
+					const item = visible[selected]?.item;
+					if (item !== undefined) {
+						busy = true;
+						try {
+							await action.run(item, screen);
+						} finally {
+							busy = false;
+						}
+					}
+					render();
+				} else if (name === "up" || name === "ctrl+k") {
+					move(selected - 1);
+				} else if (name === "down" || name === "ctrl+j") {
+					move(selected + 1);
+				} else if (name === "home") {
+					move(0);
+				} else if (name === "end") {
+					move(visible.length - 1);
+				} else if (name === "pageup") {
+					paneTop = Math.max(0, paneTop - bodyHeight + 1);
+					render();
+				} else if (name === "pagedown") {
+					const last = (pane?.lines.length || 0) - 1;
+					paneTop = Math.max(0, Math.min(last, paneTop + bodyHeight - 1));
+					render();
+				} else if (name === "backspace") {
+					filter = filter.slice(0, -1);
+					refilter();
+				} else if (name === "ctrl+u") {
+					filter = "";
+					refilter();
+				} else if (text && !key.ctrl && !key.meta && text >= " ") {
+					filter += text;
+					refilter();
+				} else {
+					render();
+				}
+			} catch (error) {
+				close(error);
+			}
+		};
+
+		readline.emitKeypressEvents(stdin);
+		// Put the terminal back even if the process exits from elsewhere
+		process.on("exit", leave);
+		stdout.on("resize", render);
+		stdin.on("keypress", onKey);
+		enter();
+		void loadPreview();
+		render();
+	});
@@ -0,0 +1,416 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+import fm from "front-matter";
+import { type IgnoreOverrides, type IgnoreRules, loadIgnoreRules } from "./ignore";
+import { splitFrontMatter } from "./frontmatter";
+import { type NoteLink, parseLinks } from "./links";
+import { parseFrontMatterTags, parseInlineTags } from "./tags";
+import { parseTasks, type Task } from "./tasks";
+
+export type Heading = {
+	level: number;
+	text: string;
+	/** 1-based line number in the file. */
+	line: number;
+};
+
+export type Note = {
+	/** Path relative to the vault root, using the platform separator. */
+	path: string;
+	title: string;
+	attributes: Record<string, unknown>;
+	/** 1-based line number of the first body line. */
+	bodyBegin: number;
+	/** Normalized front matter `tags` and `tag`. */
+	tags: string[];
+	inlineTags: string[];
+	links: NoteLink[];
+	headings: Heading[];
+	tasks: Task[];
+	/** Creation time, or the change time where the filesystem has none. */
+	ctimeMs: number;
+	mtimeMs: number;
+	size: number;
+	/** sha1 of the file content. */
+	hash: string;
+	/** Why the front matter couldn't be read; the note then has no attributes. */
+	frontMatterError?: string;
+};
+
+export type ParsedNote = Note & { body: string; content: string };
+
+export type VaultIndex = {
+	root: string;
+	rules: IgnoreRules;
+	/** Notes selected by `--include`/`--exclude`. */
+	notes: Note[];
+	byPath: Map<string, Note>;
+	/**
+	 * Every note and attachment in the vault, including notes outside the
+	 * selection, so links resolve the same whatever is selected.
+	 */
+	files: string[];
+};
+
+type IndexCache = {
+	version: number;
+	builtAt: string;
+	notes: Note[];
+};
+
+export type IndexStatus = {
+	cachePath: string;
+	builtAt?: string;
+	cached: number;
+	added: string[];
+	changed: string[];
+	deleted: string[];
+};
+
+// Bump when the shape of `Note` changes so stale caches are rebuilt
+const CACHE_VERSION = 6;
+
+// Files are read in batches so large vaults don't exhaust file descriptors
+const READ_CONCURRENCY = 64;
+
+const parseHeadings = (body: string, bodyBegin: number) => {
+	const headings: Heading[] = [];
+	let inFence = false;
+	body.split("\n").forEach((line, i) => {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+			return;
+		}
+		const match = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+		if (match) {
+			headings.push({
+				level: match[1].length,
+				text: match[2],
+				line: bodyBegin + i,
+			});
+		}
+	});
+	return headings;
+};
+
+/**
+ * Split a note with `front-matter`. Invalid YAML doesn't throw: the note is
+ * read without attributes and the error is returned, so one broken note
+ * can't stop a scan of the vault.
+ */
+const readFrontMatter = (content: string) => {
+	try {
+		const { attributes, body, bodyBegin } = fm<unknown>(content);
+		if (
+			attributes === undefined ||
+			(attributes !== null &&
+				typeof attributes === "object" &&
+				!Array.isArray(attributes))
+		) {
+			return {
+				attributes: (attributes || {}) as Record<string, unknown>,
+				body,
+				bodyBegin,
+				error: undefined,
+			};
+		}
+		throw new Error("Front matter is not a mapping");
+	} catch (error) {
+		const parts = splitFrontMatter(content);
+		const block = parts ? content.slice(0, content.length - parts.rest.length) : "";
+		return {
+			attributes: {},
+			body: parts ? parts.rest : content,
+			bodyBegin: (block.match(/\n/g) || []).length + 1,
+			// js-yaml messages continue with a snippet after the first line
+			error: (error instanceof Error ? error.message : String(error))
+				.split("\n")[0]
+				.replace(/:$/, ""),
+		};
+	}
+};
+
+export const parseNote = (
+	relPath: string,
+	content: string,
+	stats: {
+		birthtimeMs: number;
+		ctimeMs: number;
+		mtimeMs: number;
+		size: number;
+	},
+): ParsedNote => {
+	const { attributes, body, bodyBegin, error } = readFrontMatter(content);
+	const headings = parseHeadings(body, bodyBegin);
+	return {
+		path: relPath,
+		title: path.basename(relPath, ".md"),
+		attributes,
+		content,
+		body,
+		bodyBegin,
+		tags: parseFrontMatterTags(attributes),
+		inlineTags: parseInlineTags(body),
+		links: parseLinks(body, bodyBegin),
+		headings,
+		tasks: parseTasks(body, bodyBegin, headings),
+		ctimeMs: stats.birthtimeMs || stats.ctimeMs,
+		mtimeMs: stats.mtimeMs,
+		size: stats.size,
+		hash: createHash("sha1").update(content).digest("hex"),
+		...(error ? { frontMatterError: error } : {}),
+	};
+};
+
+export const readNote = async (root: string, relPath: string) => {
+	const fullPath = path.join(root, relPath);
+	const [content, stats] = await Promise.all([
+		fs.readFile(fullPath, "utf-8"),
+		fs.stat(fullPath),
+	]);
+	return parseNote(relPath, content, stats);
+};
+
+/** Front matter and inline tags of a note. */
+export const noteTags = (note: Note) => [
+	...new Set([...note.tags, ...note.inlineTags]),
+];
+
+const toIndexed = ({ body, content, ...note }: ParsedNote): Note => note;
+
+/** Notes and other files (attachments) that aren't ignored. */
+const walk = async (root: string, rules: IgnoreRules) => {
+	const files: string[] = [];
+	const attachments: string[] = [];
+
+	const scanDir = async (dir: string) => {
+		const entries = await fs.readdir(dir, { withFileTypes: true });
+		for (const entry of entries) {
+			const fullPath = path.join(dir, entry.name);
+			const relPath = path.relative(root, fullPath);
+
+			if (entry.isDirectory()) {
+				if (!rules.ignored(`${relPath}/`)) {
+					await scanDir(fullPath);
+				}
+			} else if (!rules.ignored(relPath)) {
+				(entry.name.endsWith(".md") ? files : attachments).push(relPath);
+			}
+		}
+	};
+
+	await scanDir(root);
+	return { files, attachments };
+};
+
+const inBatches = async <T, R>(items: T[], fn: (item: T) => Promise<R>) => {
+	const results: R[] = [];
+	for (let i = 0; i < items.length; i += READ_CONCURRENCY) {
+		const batch = items.slice(i, i + READ_CONCURRENCY);
+		results.push(...(await Promise.all(batch.map(fn))));
+	}
+	return results;
+};
+
+export const cachePath = (root: string) =>
+	path.join(root, ".multimatter", "index.json");
+
+// Front matter dates are parsed into Date objects; keep them round-tripping
+function encodeDates(this: Record<string, unknown>, key: string, value: unknown) {
+	return this[key] instanceof Date ? { $date: value } : value;
+}
+
+const decodeDates = (_key: string, value: unknown) =>
+	value && typeof value === "object" && "$date" in value
+		? new Date((value as { $date: string }).$date)
+		: value;
+
+const readCache = async (root: string): Promise<IndexCache | undefined> => {
+	try {
+		const cache: IndexCache = JSON.parse(
+			await fs.readFile(cachePath(root), "utf-8"),
+			decodeDates,
+		);
+		return cache.version === CACHE_VERSION ? cache : undefined;
+	} catch {
+		// A missing or corrupt cache just means a full rebuild
+		return undefined;
+	}
+};
+
+const writeCache = async (root: string, notes: Note[]) => {
+	const file = cachePath(root);
+	const cache: IndexCache = {
+		version: CACHE_VERSION,
+		builtAt: new Date().toISOString(),
+		notes,
+	};
+	try {
+		await fs.mkdir(path.dirname(file), { recursive: true });
+		await fs.writeFile(`${file}.tmp`, JSON.stringify(cache, encodeDates));
+		await fs.rename(`${file}.tmp`, file);
+	} catch {
+		// The cache is an optimization; a read-only vault still works
+	}
+};
+
+const isUnchanged = (
+	cached: Note | undefined,
+	stats: { mtimeMs: number; size: number },
+): cached is Note =>
+	!!cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size;
+
+const buildVaultIndex = async (
+	root: string,
+	overrides: IgnoreOverrides,
+	useCache: boolean,
+) => {
+	const rules = await loadIgnoreRules(root, overrides);
+	const { files, attachments } = await walk(root, rules);
+	const cache = useCache ? await readCache(root) : undefined;
+	const cached = new Map(cache?.notes.map((note) => [note.path, note]));
+	let dirty = !cache || cached.size !== files.length;
+
+	const notes = await inBatches(files, async (file) => {
+		const stats = await fs.stat(path.join(root, file));
+		const previous = cached.get(file);
+		if (isUnchanged(previous, stats)) {
+			return previous;
+		}
+		dirty = true;
+		return toIndexed(await readNote(root, file));
+	});
+
+	// The cache holds every note so `--include`/`--exclude` don't churn it
+	if (dirty) {
+		await writeCache(root, notes);
+	}
+	const selected = notes.filter((note) => rules.selected(note.path));
+	const index: VaultIndex = {
+		root,
+		rules,
+		notes: selected,
+		byPath: new Map(selected.map((note) => [note.path, note])),
+		files: [...files, ...attachments],
+	};
+	return index;
+};
+
+const indexes = new Map<string, Promise<VaultIndex>>();
+
+const indexKey = (root: string, overrides: IgnoreOverrides) =>
+	JSON.stringify([root, overrides.include || [], overrides.exclude || []]);
+
+const remember = (key: string, index: Promise<VaultIndex>) => {
+	indexes.set(key, index);
+	// Don't keep a failed walk around, so the next command can retry
+	index.catch(() => indexes.delete(key));
+	return index;
+};
+
+/**
+ * Load the vault index once per process and share it between commands.
+ * Notes are read from the on-disk cache and only files whose mtime or size
+ * changed are parsed again. Commands that write notes call `reindexNote`
+ * and `saveVaultIndex` afterwards.
+ */
+export const loadVaultIndex = (
+	root: string,
+	overrides: IgnoreOverrides = {},
+) => {
+	const key = indexKey(root, overrides);
+	return (
+		indexes.get(key) || remember(key, buildVaultIndex(root, overrides, true))
+	);
+};
+
+/** Ignore the on-disk cache and parse every note again. */
+export const rebuildVaultIndex = (
+	root: string,
+	overrides: IgnoreOverrides = {},
+) =>
+	remember(
+		indexKey(root, overrides),
+		buildVaultIndex(root, overrides, false),
+	);
+
+/**
+ * Persist notes changed through `reindexNote`. Cached notes outside the
+ * `--include`/`--exclude` selection are kept.
+ */
+export const saveVaultIndex = async (index: VaultIndex) => {
+	const cached = new Map(
+		(await readCache(index.root))?.notes.map((note) => [note.path, note]),
+	);
+	for (const note of index.notes) {
+		cached.set(note.path, note);
+	}
+	await writeCache(index.root, Array.from(cached.values()));
+};
+
+/** Compare the on-disk cache with the vault without parsing any notes. */
+export const getIndexStatus = async (root: string): Promise<IndexStatus> => {
+	const rules = await loadIgnoreRules(root);
+	const [{ files }, cache] = await Promise.all([
+		walk(root, rules),
+		readCache(root),
+	]);
+	const cached = new Map(cache?.notes.map((note) => [note.path, note]));
+	const status: IndexStatus = {
+		cachePath: cachePath(root),
+		builtAt: cache?.builtAt,
+		cached: cached.size,
+		added: [],
+		changed: [],
+		deleted: [],
+	};
+
+	await inBatches(files, async (file) => {
+		const previous = cached.get(file);
+		cached.delete(file);
+		if (!previous) {
+			status.added.push(file);
+		} else if (!isUnchanged(previous, await fs.stat(path.join(root, file)))) {
+			status.changed.push(file);
+		}
+	});
+	status.deleted.push(...cached.keys());
+	return status;
+};
+
+export const reindexNote = async (index: VaultIndex, relPath: string) => {
+	const note = toIndexed(await readNote(index.root, relPath));
+	const existing = index.byPath.get(relPath);
+	if (existing) {
+		index.notes[index.notes.indexOf(existing)] = note;
+	} else {
+		index.notes.push(note);
+	}
+	if (!index.files.includes(relPath)) {
+		index.files.push(relPath);
+	}
+	index.byPath.set(relPath, note);
+	return note;
+};
+
+/** Drop a deleted or moved file from the index. */
+export const forgetNote = (index: VaultIndex, relPath: string) => {
+	const existing = index.byPath.get(relPath);
+	if (existing) {
+		index.notes.splice(index.notes.indexOf(existing), 1);
+		index.byPath.delete(relPath);
+	}
+	index.files = index.files.filter((file) => file !== relPath);
+};
+
+/** Notes located in `subpath` (relative to the vault), or all notes. */
+export const notesIn = (index: VaultIndex, subpath = "") => {
+	const prefix = path.relative(index.root, path.join(index.root, subpath));
+	if (!prefix) {
+		return index.notes;
+	}
+	return index.notes.filter(
+		(note) => note.path === prefix || note.path.startsWith(prefix + path.sep),
+	);
+};
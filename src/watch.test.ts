@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { rebuildVaultIndex } from "./vault-index";
+import {
+	type VaultWatcher,
+	type WatchEvent,
+	type WatchRules,
+	watchVault,
+} from "./watch";
+
+let root: string;
+let watcher: VaultWatcher | undefined;
+let events: WatchEvent[];
+
+const writeNote = async (relPath: string, content: string) => {
+	await fs.mkdir(path.dirname(path.join(root, relPath)), { recursive: true });
+	await fs.writeFile(path.join(root, relPath), content);
+};
+
+const read = (relPath: string) => fs.readFile(path.join(root, relPath), "utf-8");
+
+const start = async (rules: Partial<WatchRules>) => {
+	const index = await rebuildVaultIndex(root);
+	watcher = watchVault(index, {
+		rules: { folderTags: [], ...rules },
+		debounceMs: 20,
+		onEvent: (event) => events.push(event),
+	});
+	// Let the watcher settle before the test writes anything
+	await Bun.sleep(50);
+	return index;
+};
+
+/** Wait until the events satisfy `done`, then a little longer for stragglers. */
+const settle = async (done: () => boolean) => {
+	for (let waited = 0; !done() && waited < 3000; waited += 20) {
+		await Bun.sleep(20);
+	}
+	await Bun.sleep(200);
+};
+
+const seen = () => events.map((event) => `${event.type} ${event.path}`);
+
+beforeEach(async () => {
+	root = await fs.realpath(
+		await fs.mkdtemp(path.join(os.tmpdir(), "multimatter-watch-")),
+	);
+	await writeNote("Inbox/Old.md", "---\ntags: [inbox]\n---\nOld\n");
+	events = [];
+});
+
+afterEach(async () => {
+	await watcher?.close();
+	watcher = undefined;
+	await fs.rm(root, { recursive: true, force: true });
+});
+
+describe("watchVault", () => {
+	test("tags notes saved in a folder once and ignores its own write", async () => {
+		await start({
+			folderTags: [
+				{ folder: "Inbox", tag: "#inbox" },
+				{ folder: "Inbox/", tag: "inbox" },
+				{ folder: "Work", tag: "work" },
+			],
+		});
+		await writeNote("Inbox/New.md", "---\ntags: [idea]\n---\nText #Inbox2\n");
+		await settle(() =>
+			seen().includes(`updated ${path.join("Inbox", "New.md")}`),
+		);
+
+		expect(await read("Inbox/New.md")).toBe(
+			"---\ntags: [idea, inbox]\n---\nText #Inbox2\n",
+		);
+		expect(seen()).toEqual([
+			`added ${path.join("Inbox", "New.md")}`,
+			`updated ${path.join("Inbox", "New.md")}`,
+		]);
+		expect(events[1].detail).toBe("#inbox");
+	});
+
+	test("leaves notes that already follow the rules alone", async () => {
+		const index = await start({
+			folderTags: [{ folder: "Inbox", tag: "INBOX" }],
+		});
+		await writeNote("Inbox/Old.md", "---\ntags: [inbox]\n---\nEdited\n");
+		await settle(() => seen().length > 0);
+
+		expect(seen()).toEqual([`changed ${path.join("Inbox", "Old.md")}`]);
+		expect(await read("Inbox/Old.md")).toBe("---\ntags: [inbox]\n---\nEdited\n");
+		expect(index.byPath.get(path.join("Inbox", "Old.md"))?.tags).toEqual([
+			"inbox",
+		]);
+	});
+
+	test("keeps lastmod in the note's date format", async () => {
+		await start({ lastmod: { field: "lastmod" } });
+		await writeNote("Log.md", "---\nlastmod: 2020-01-01T08:00\n---\nText\n");
+		await settle(() => seen().includes("updated Log.md"));
+
+		expect(await read("Log.md")).toMatch(
+			/^---\nlastmod: \d{4}-\d{2}-\d{2}T\d{2}:\d{2}\n---\nText\n$/,
+		);
+		expect(seen()).toEqual(["added Log.md", "updated Log.md"]);
+	});
+
+	test("indexes the notes of a folder moved in and forgets deleted ones", async () => {
+		const outside = await fs.mkdtemp(
+			path.join(os.tmpdir(), "multimatter-outside-"),
+		);
+		await fs.mkdir(path.join(outside, "Trip", "Days"), { recursive: true });
+		await fs.writeFile(path.join(outside, "Trip", "Plan.md"), "Plan\n");
+		await fs.writeFile(path.join(outside, "Trip", "Days", "One.md"), "One\n");
+		const index = await start({});
+
+		await fs.rename(path.join(outside, "Trip"), path.join(root, "Trip"));
+		await settle(() => seen().length >= 2);
+		expect(seen().sort()).toEqual([
+			`added ${path.join("Trip", "Days", "One.md")}`,
+			`added ${path.join("Trip", "Plan.md")}`,
+		]);
+
+		events = [];
+		await fs.rm(path.join(root, "Inbox"), { recursive: true });
+		await settle(() => seen().length > 0);
+		expect(seen()).toEqual([`deleted ${path.join("Inbox", "Old.md")}`]);
+		expect(index.byPath.has(path.join("Inbox", "Old.md"))).toBe(false);
+		await fs.rm(outside, { recursive: true, force: true });
+	});
+});
@@ -0,0 +1,253 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { writeFileAtomic } from "./changes";
+import { formatDate, inferDateFormat } from "./dates";
+import { editFrontMatter } from "./frontmatter";
+import { type LintSchema, lintNote, rulesFor } from "./schema";
+import { normalizeTag } from "./tags";
+import {
+	forgetNote,
+	noteTags,
+	reindexNote,
+	saveVaultIndex,
+	type VaultIndex,
+} from "./vault-index";
+
+export type WatchRules = {
+	/** Set this key to the note's modification time whenever it changes. */
+	lastmod?: { field: string; format?: string };
+	/** Tags added to every note saved in a folder. */
+	folderTags: { folder: string; tag: string }[];
+	/** Report front matter problems after every change. */
+	schema?: LintSchema;
+};
+
+export type WatchEvent = {
+	time: Date;
+	type: "added" | "changed" | "deleted" | "updated" | "invalid" | "error";
+	path: string;
+	detail?: string;
+};
+
+export type WatchOptions = {
+	rules: WatchRules;
+	/** Quiet period after the last event for a file before handling it. */
+	debounceMs: number;
+	onEvent: (event: WatchEvent) => void;
+};
+
+export type VaultWatcher = {
+	/** Stop watching and wait for the changes already queued. */
+	close: () => Promise<void>;
+};
+
+// Temporary files of `writeFileAtomic`
+const isTempFile = (relPath: string) =>
+	/^\..+\.tmp$/.test(path.basename(relPath));
+
+const inFolder = (relPath: string, folder: string) => {
+	const prefix = path.normalize(folder).replace(/[\\/]+$/, "");
+	return prefix === "." || relPath.startsWith(prefix + path.sep);
+};
+
+/**
+ * Watch the vault and keep the index and the configured metadata in sync.
+ * Events are debounced per file, since editors save in bursts, and handled
+ * one at a time. Files the watcher wrote itself are recognized by their
+ * content and not handled again.
+ */
+export const watchVault = (
+	index: VaultIndex,
+	options: WatchOptions,
+): VaultWatcher => {
+	const { rules } = options;
+	const timers = new Map<string, ReturnType<typeof setTimeout>>();
+	const ownWrites = new Map<string, string>();
+	let queue = Promise.resolve();
+
+	const emit = (type: WatchEvent["type"], relPath: string, detail?: string) =>
+		options.onEvent({ time: new Date(), type, path: relPath, detail });
+
+	/** Front matter the rules want for a note, or the content unchanged. */
+	const applyRules = (
+		relPath: string,
+		content: string,
+		tags: string[],
+		modified: Date,
+	) => {
+		const applied: string[] = [];
+		const after = editFrontMatter(content, (frontMatter) => {
+			if (rules.lastmod) {
+				const { field, format } = rules.lastmod;
+				const schemaFormat = rules.schema
+					? rulesFor(rules.schema, relPath)[field]?.format
+					: undefined;
+				const value = formatDate(
+					modified,
+					format ||
+						schemaFormat ||
+						inferDateFormat(frontMatter.get(field)) ||
+						"YYYY-MM-DD",
+				);
+				if (String(frontMatter.get(field) ?? "") !== value) {
+					frontMatter.set(field, value);
+					applied.push(field);
+				}
+			}
+			const lower = tags.map((tag) => tag.toLowerCase());
+			const missing = rules.folderTags
+				.filter(({ folder }) => inFolder(relPath, folder))
+				.map(({ tag }) => normalizeTag(tag))
+				.filter(
+					(tag, i, all) =>
+						!lower.includes(tag.toLowerCase()) && all.indexOf(tag) === i,
+				);
+			if (missing.length > 0) {
+				const current = index.byPath.get(relPath)?.tags || [];
+				frontMatter.set("tags", [...current, ...missing]);
+				// `tag` is merged into `tags` when reading, so don't keep both
+				frontMatter.delete("tag");
+				applied.push(...missing.map((tag) => `#${tag}`));
+			}
+		});
+		return { after, applied };
+	};
+
+	const handle = async (relPath: string) => {
+		const fullPath = path.join(index.root, relPath);
+		const stats = await fs.promises.stat(fullPath).catch(() => undefined);
+		if (!stats) {
+			const gone = index.files.filter(
+				(file) => file === relPath || file.startsWith(relPath + path.sep),
+			);
+			for (const file of gone) {
+				forgetNote(index, file);
+				if (file.endsWith(".md")) {
+					emit("deleted", file);
+				}
+			}
+			if (gone.length > 0) {
+				await saveVaultIndex(index);
+			}
+			return;
+		}
+		if (stats.isDirectory()) {
+			if (index.rules.ignored(`${relPath}/`)) {
+				return;
+			}
+			// A folder moved or copied in sends one event, not one per note in it
+			const entries = await fs.promises.readdir(fullPath, {
+				withFileTypes: true,
+			});
+			for (const entry of entries) {
+				const child = path.join(relPath, entry.name);
+				if (
+					entry.isDirectory() ||
+					(!index.files.includes(child) &&
+						!isTempFile(child) &&
+						!index.rules.ignored(child))
+				) {
+					await handle(child);
+				}
+			}
+			return;
+		}
+		if (!relPath.endsWith(".md")) {
+			if (!index.files.includes(relPath)) {
+				index.files.push(relPath);
+			}
+			return;
+		}
+		if (!index.rules.selected(relPath)) {
+			return;
+		}
+		// Already indexed as it is, e.g. a note of a folder handled above
+		const known = index.byPath.get(relPath);
+		if (known && known.mtimeMs === stats.mtimeMs && known.size === stats.size) {
+			ownWrites.delete(relPath);
+			return;
+		}
+
+		const content = await fs.promises.readFile(fullPath, "utf-8");
+		if (ownWrites.get(relPath) === content) {
+			ownWrites.delete(relPath);
+			return;
+		}
+		const existed = index.byPath.has(relPath);
+		const note = await reindexNote(index, relPath);
+		emit(existed ? "changed" : "added", relPath);
+
+		if (note.frontMatterError) {
+			emit("invalid", relPath, note.frontMatterError);
+		} else {
+			const { after, applied } = applyRules(
+				relPath,
+				content,
+				noteTags(note),
+				new Date(stats.mtimeMs),
+			);
+			if (after !== content) {
+				ownWrites.set(relPath, after);
+				await writeFileAtomic(fullPath, after);
+				await reindexNote(index, relPath);
+				emit("updated", relPath, applied.join(", "));
+			}
+			if (rules.schema) {
+				for (const violation of lintNote(rules.schema, relPath, after)) {
+					emit(
+						"invalid",
+						relPath,
+						`line ${violation.line}: ${violation.field} ${violation.message}`,
+					);
+				}
+			}
+		}
+		await saveVaultIndex(index);
+	};
+
+	const enqueue = (relPath: string) => {
+		timers.delete(relPath);
+		queue = queue
+			.then(() => handle(relPath))
+			.catch((error) =>
+				emit(
+					"error",
+					relPath,
+					(error instanceof Error ? error.message : String(error)).split(
+						"\n",
+					)[0],
+				),
+			);
+	};
+
+	const watcher = fs.watch(
+		index.root,
+		{ recursive: true },
+		(_event, filename) => {
+			if (!filename) {
+				return;
+			}
+			const relPath = path.normalize(filename.toString());
+			if (isTempFile(relPath) || index.rules.ignored(relPath)) {
+				return;
+			}
+			clearTimeout(timers.get(relPath));
+			timers.set(
+				relPath,
+				setTimeout(() => enqueue(relPath), options.debounceMs),
+			);
+		},
+	);
+
+	return {
+		close: async () => {
+			watcher.close();
+			// Handle saves still waiting out the debounce instead of dropping them
+			for (const [relPath, timer] of timers) {
+				clearTimeout(timer);
+				enqueue(relPath);
+			}
+			await queue;
+		},
+	};
+};